@@ -0,0 +1,77 @@
+/**
+ * Benchmark id, slug and parent lookups against plain array scans
+ * The "scan" column repeats each lookup the way it was written before the
+ * Map indexes (Array.find/filter over the raw data)
+ * Usage: bun run scripts/benchmark-lookups.ts
+ */
+import {
+  getRawDivisions,
+  getRawDistricts,
+  getRawUpazilas,
+  getRawUnions,
+  getUnionById,
+  getUnionBySlug,
+  getUpazilasByDistrict,
+  getUnionsByDivision,
+  getFullAddressOfUnion,
+  normalizeName,
+} from '../src/index';
+import type { FullAddress } from '../src/index';
+
+const ITERATIONS = 5;
+
+const divisions = getRawDivisions();
+const districts = getRawDistricts();
+const upazilas = getRawUpazilas();
+const unions = getRawUnions();
+
+const scan = {
+  unionById: (id: number) => unions.find((u) => u.id === id),
+  unionBySlug: (slug: string) => {
+    const key = normalizeName(slug);
+    return unions.find((u) => u.slug === key);
+  },
+  upazilasByDistrict: (districtId: number) => upazilas.filter((u) => u.districtId === districtId),
+  unionsByDivision: (divisionId: number) => {
+    const districtIds = new Set(districts.filter((d) => d.divisionId === divisionId).map((d) => d.id));
+    const upazilaIds = new Set(upazilas.filter((u) => districtIds.has(u.districtId)).map((u) => u.id));
+    return unions.filter((u) => upazilaIds.has(u.upazilaId));
+  },
+  fullAddressOfUnion: (unionId: number): FullAddress | undefined => {
+    const union = unions.find((u) => u.id === unionId);
+    const upazila = union && upazilas.find((u) => u.id === union.upazilaId);
+    const district = upazila && districts.find((d) => d.id === upazila.districtId);
+    const division = district && divisions.find((d) => d.id === district.divisionId);
+    return union && upazila && district && division ? { division, district, upazila, union } : undefined;
+  },
+};
+
+/**
+ * Best time of a few runs of a batch of calls, in milliseconds
+ */
+function time(run: () => void): number {
+  let best = Infinity;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = performance.now();
+    run();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+function bench<T>(label: string, inputs: T[], scanLookup: (input: T) => unknown, lookup: (input: T) => unknown) {
+  inputs.forEach(lookup); // build the indexes outside the timing
+  const scanTime = time(() => inputs.forEach(scanLookup));
+  const indexedTime = time(() => inputs.forEach(lookup));
+  console.log(
+    `${label.padEnd(24)} ${String(inputs.length).padStart(5)} calls  scan ${scanTime.toFixed(2).padStart(7)}ms  indexed ${indexedTime.toFixed(2).padStart(6)}ms  ${(scanTime / indexedTime).toFixed(0).padStart(4)}x`
+  );
+}
+
+const unionIds = unions.map((u) => u.id);
+
+bench('getUnionById', unionIds, scan.unionById, getUnionById);
+bench('getUnionBySlug', unions.map((u) => u.slug), scan.unionBySlug, getUnionBySlug);
+bench('getUpazilasByDistrict', districts.map((d) => d.id), scan.upazilasByDistrict, getUpazilasByDistrict);
+bench('getUnionsByDivision', divisions.map((d) => d.id), scan.unionsByDivision, getUnionsByDivision);
+bench('getFullAddressOfUnion', unionIds, scan.fullAddressOfUnion, getFullAddressOfUnion);
@@ -0,0 +1,43 @@
+/**
+ * Benchmark search latency over the bundled dataset
+ * Usage: bun run scripts/benchmark-search.ts
+ */
+import { search, autocomplete, fuzzySearch, warmSearchIndex } from '../src/index';
+
+const queries = [
+  'dhaka', 'Dahka', 'সিলেট', 'pur', 'a', 'mir', 'Mirpur', 'komilla',
+  'chottogram', 'Barguna Sadar', 'xyz', 'ময়মনসিংহ', 'Bogra', 'jessore',
+];
+
+const ITERATIONS = 20;
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+function bench(label: string, fn: (query: string) => unknown) {
+  const timings: number[] = [];
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    for (const query of queries) {
+      const start = performance.now();
+      fn(query);
+      timings.push(performance.now() - start);
+    }
+  }
+
+  timings.sort((a, b) => a - b);
+  const avg = timings.reduce((sum, t) => sum + t, 0) / timings.length;
+  console.log(
+    `${label.padEnd(14)} avg ${avg.toFixed(2)}ms  p50 ${percentile(timings, 0.5).toFixed(2)}ms  p95 ${percentile(timings, 0.95).toFixed(2)}ms`
+  );
+}
+
+const buildStart = performance.now();
+warmSearchIndex();
+console.log(`Index build    ${(performance.now() - buildStart).toFixed(2)}ms\n`);
+
+bench('search', (q) => search(q));
+bench('autocomplete', (q) => autocomplete(q));
+bench('fuzzySearch', (q) => fuzzySearch(q));
+bench('search (bn)', (q) => search(q, { includeEnglish: false, includeSlug: false }));
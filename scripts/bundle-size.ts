@@ -0,0 +1,98 @@
+/**
+ * Report what each package entry point costs an app that imports it
+ * Bundles every `exports` entry from dist/ the way an app bundler would
+ * (minified, code split) and prints the size loaded up front and the size
+ * of the chunks only loaded through dynamic imports (`loadUnions()` etc.)
+ * Usage: bun run scripts/bundle-size.ts (after tsup; part of `build`)
+ */
+import { build } from 'esbuild';
+import type { Metafile } from 'esbuild';
+import { gzipSync } from 'node:zlib';
+import packageJson from '../package.json';
+
+interface EntrySize {
+  entry: string;
+  initial: number;
+  initialGzip: number;
+  lazy: number;
+  lazyGzip: number;
+}
+
+const exportsMap = packageJson.exports as Record<string, { import: string }>;
+const external = Object.keys(packageJson.peerDependencies);
+
+function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+/**
+ * Output files reachable from an output through static imports
+ */
+function staticClosure(metafile: Metafile, output: string, seen = new Set<string>()): Set<string> {
+  if (seen.has(output)) return seen;
+  seen.add(output);
+  for (const imported of metafile.outputs[output]?.imports ?? []) {
+    if (imported.kind === 'import-statement' && !imported.external) {
+      staticClosure(metafile, imported.path, seen);
+    }
+  }
+  return seen;
+}
+
+async function measure(entry: string, file: string): Promise<EntrySize> {
+  const result = await build({
+    entryPoints: [file],
+    bundle: true,
+    minify: true,
+    splitting: true,
+    format: 'esm',
+    platform: 'browser',
+    outdir: 'out',
+    external,
+    write: false,
+    metafile: true,
+    logLevel: 'silent',
+  });
+
+  const metafile = result.metafile as Metafile;
+  const entryOutput = Object.keys(metafile.outputs).find(
+    (output) => metafile.outputs[output]?.entryPoint !== undefined && output.endsWith('.js')
+  );
+  const initialFiles = entryOutput ? staticClosure(metafile, entryOutput) : new Set<string>();
+
+  const size: EntrySize = { entry, initial: 0, initialGzip: 0, lazy: 0, lazyGzip: 0 };
+  for (const outputFile of result.outputFiles) {
+    const path = outputFile.path.slice(outputFile.path.indexOf('out/'));
+    if (!path.endsWith('.js')) continue;
+    const bytes = outputFile.contents.length;
+    const gzipped = gzipSync(outputFile.contents).length;
+    if (initialFiles.has(path)) {
+      size.initial += bytes;
+      size.initialGzip += gzipped;
+    } else {
+      size.lazy += bytes;
+      size.lazyGzip += gzipped;
+    }
+  }
+  return size;
+}
+
+const sizes: EntrySize[] = [];
+for (const [subpath, conditions] of Object.entries(exportsMap)) {
+  const entry = subpath === '.' ? packageJson.name : `${packageJson.name}${subpath.slice(1)}`;
+  sizes.push(await measure(entry, conditions.import));
+}
+
+const width = Math.max(...sizes.map((s) => s.entry.length));
+console.log(`${'Entry'.padEnd(width)}  ${'Initial'.padStart(10)}  ${'gzip'.padStart(10)}  ${'Lazy'.padStart(10)}  ${'gzip'.padStart(10)}`);
+for (const s of sizes) {
+  console.log(
+    [
+      s.entry.padEnd(width),
+      formatKb(s.initial).padStart(10),
+      formatKb(s.initialGzip).padStart(10),
+      (s.lazy > 0 ? formatKb(s.lazy) : '-').padStart(10),
+      (s.lazyGzip > 0 ? formatKb(s.lazyGzip) : '-').padStart(10),
+    ].join('  ')
+  );
+}
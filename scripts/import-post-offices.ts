@@ -0,0 +1,127 @@
+/**
+ * Import the Bangladesh Post post office list into src/data/post-offices.json
+ * Usage: bun run scripts/import-post-offices.ts <post-offices.csv>
+ *
+ * The CSV follows the Bangladesh Post code list, one row per post office:
+ * `district,thana,office,code` with an optional `bn_name` column. `thana` is
+ * matched against the metropolitan thanas of the district first, then its
+ * upazilas. The imported list replaces the dataset; Bengali names missing from
+ * the CSV are kept from the current dataset where the office already exists.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { PostOffice } from '../src/types/location.types';
+import { getDistrictByName } from '../src/utils/districts';
+import { getUpazilasByDistrict } from '../src/utils/upazilas';
+import { getThanasByDistrict } from '../src/index';
+import { findByName } from '../src/utils/lookup';
+
+const dataPath = join(import.meta.dir, '..', 'src', 'data', 'post-offices.json');
+
+const columns = ['district', 'thana', 'office', 'code'] as const;
+
+/**
+ * Split a CSV line, honouring double-quoted fields
+ */
+function parseLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+async function importPostOffices() {
+  const [csvPath] = process.argv.slice(2);
+  if (!csvPath) {
+    throw new Error('Usage: bun run scripts/import-post-offices.ts <post-offices.csv>');
+  }
+
+  const [header = '', ...rows] = (await readFile(csvPath, 'utf8'))
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  const names = parseLine(header).map((name) => name.toLowerCase());
+  const missing = columns.filter((column) => !names.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV columns: ${missing.join(', ')}`);
+  }
+  const column = (fields: string[], name: string) => fields[names.indexOf(name)] ?? '';
+
+  const current = JSON.parse(await readFile(dataPath, 'utf8')) as PostOffice[];
+  const currentBnNames = new Map(current.map((o) => [`${o.code}:${o.name.toLowerCase()}`, o.bnName]));
+
+  const postOffices: PostOffice[] = [];
+  const skipped: string[] = [];
+  let withoutBnName = 0;
+
+  for (const row of rows) {
+    const fields = parseLine(row);
+    const name = column(fields, 'office');
+    const code = column(fields, 'code');
+    const district = getDistrictByName(column(fields, 'district'));
+    if (!district || !name || !/^\d{4}$/.test(code)) {
+      skipped.push(row);
+      continue;
+    }
+
+    const thanaName = column(fields, 'thana');
+    const thana = findByName(getThanasByDistrict(district.id), thanaName);
+    const upazila = thana ? undefined : findByName(getUpazilasByDistrict(district.id), thanaName);
+    const location = thana ? { thanaId: thana.id } : upazila ? { upazilaId: upazila.id } : undefined;
+    if (!location) {
+      skipped.push(row);
+      continue;
+    }
+
+    let bnName = column(fields, 'bn_name') || currentBnNames.get(`${code}:${name.toLowerCase()}`);
+    if (!bnName) {
+      withoutBnName++;
+      bnName = name;
+    }
+
+    postOffices.push({
+      id: postOffices.length + 1,
+      name,
+      bnName,
+      code,
+      districtId: district.id,
+      ...location,
+    });
+  }
+
+  await writeFile(dataPath, `${JSON.stringify(postOffices, null, 2)}\n`);
+
+  console.log(`✓ Imported ${postOffices.length} post offices into ${dataPath}`);
+  if (withoutBnName > 0) {
+    console.warn(`  ${withoutBnName} offices have no Bengali name; add a bn_name column to fill them`);
+  }
+  if (skipped.length > 0) {
+    console.warn(`  Skipped ${skipped.length} rows with an unknown district, thana or code:`);
+    for (const row of skipped) console.warn(`    ${row}`);
+  }
+}
+
+importPostOffices().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+/**
+ * Simplify boundary polygons into a file for registerBoundaries()
+ * Usage: bun run scripts/prepare-boundaries.ts <division|district|upazila> <file.geojson> <out.json> [idProperty]
+ *
+ * Every Polygon/MultiPolygon feature needs a property (default `id`) holding
+ * the division, district or upazila id used in src/data. Rings are simplified
+ * (Douglas-Peucker, ~100 m tolerance) and rounded to 5 decimals. Features are
+ * merged into `out.json` when it exists, so one file can hold every level.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import type {
+  BoundaryCollection,
+  BoundaryFeature,
+  BoundaryType,
+  Position,
+} from '../src/utils/boundaries';
+
+/** Simplification tolerance in degrees (~100 m) */
+const TOLERANCE = 0.001;
+
+const types: BoundaryType[] = ['division', 'district', 'upazila'];
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+/**
+ * Distance from a point to the segment a-b (in degrees)
+ */
+function segmentDistance(point: Position, a: Position, b: Position): number {
+  const [x, y] = point;
+  const [x1, y1] = a;
+  const [x2, y2] = b;
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+}
+
+/**
+ * Douglas-Peucker simplification of a closed ring
+ */
+function simplifyRing(ring: Position[]): Position[] {
+  const keep = new Uint8Array(ring.length);
+  keep[0] = 1;
+  keep[ring.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, ring.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop() as [number, number];
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = segmentDistance(ring[i] as Position, ring[start] as Position, ring[end] as Position);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistance > TOLERANCE) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return ring
+    .filter((_, i) => keep[i])
+    .map(([lng, lat]): Position => [round(lng), round(lat)]);
+}
+
+/**
+ * Simplify the rings of a polygon, dropping holes that collapse
+ */
+function simplifyPolygon([outer, ...holes]: Position[][]): Position[][] | undefined {
+  const simplifiedOuter = simplifyRing(outer ?? []);
+  if (simplifiedOuter.length < 4) return undefined;
+  return [simplifiedOuter, ...holes.map(simplifyRing).filter((ring) => ring.length >= 4)];
+}
+
+async function prepareBoundaries() {
+  const [type, geojsonPath, outPath, idProperty = 'id'] = process.argv.slice(2);
+  if (!type || !types.includes(type as BoundaryType) || !geojsonPath || !outPath) {
+    throw new Error(
+      'Usage: bun run scripts/prepare-boundaries.ts <division|district|upazila> <file.geojson> <out.json> [idProperty]'
+    );
+  }
+
+  const source = JSON.parse(await readFile(geojsonPath, 'utf8')) as {
+    features: { properties?: Record<string, unknown>; geometry?: { type: string; coordinates: unknown } }[];
+  };
+
+  const imported: BoundaryFeature[] = [];
+  for (const feature of source.features) {
+    const id = Number(feature.properties?.[idProperty]);
+    const geometry = feature.geometry;
+    if (!Number.isInteger(id) || !geometry) continue;
+
+    const polygons =
+      geometry.type === 'Polygon'
+        ? [geometry.coordinates as Position[][]]
+        : geometry.type === 'MultiPolygon'
+          ? (geometry.coordinates as Position[][][])
+          : [];
+    const simplified = polygons
+      .map(simplifyPolygon)
+      .filter((polygon): polygon is Position[][] => polygon !== undefined);
+    if (simplified.length === 0) continue;
+
+    imported.push({
+      type: 'Feature',
+      properties: { type: type as BoundaryType, id },
+      geometry:
+        simplified.length === 1
+          ? { type: 'Polygon', coordinates: simplified[0] as Position[][] }
+          : { type: 'MultiPolygon', coordinates: simplified },
+    });
+  }
+
+  const dataset: BoundaryCollection = await readFile(outPath, 'utf8').then(
+    (text) => JSON.parse(text) as BoundaryCollection,
+    () => ({ type: 'FeatureCollection', features: [] })
+  );
+
+  // Replace existing boundaries of the same locations, keep everything else
+  const replaced = new Set(imported.map((f) => f.properties.id));
+  const features = [
+    ...dataset.features.filter(
+      (f) => f.properties.type !== type || !replaced.has(f.properties.id)
+    ),
+    ...imported,
+  ].sort(
+    (a, b) =>
+      types.indexOf(a.properties.type) - types.indexOf(b.properties.type) ||
+      a.properties.id - b.properties.id
+  );
+
+  // One feature per line keeps diffs of the dataset readable
+  const lines = features.map((f) => `    ${JSON.stringify(f)}`);
+  const output = features.length
+    ? `{\n  "type": "FeatureCollection",\n  "features": [\n${lines.join(',\n')}\n  ]\n}\n`
+    : `{\n  "type": "FeatureCollection",\n  "features": []\n}\n`;
+  await writeFile(outPath, output);
+
+  console.log(`✓ Prepared ${imported.length} ${type} boundaries (${features.length} in ${outPath})`);
+}
+
+prepareBoundaries().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * Check search ranking against fixtures of common misspellings
+ * Usage: bun run scripts/relevance-search.ts
+ *
+ * Each fixture names the location a query should find and the worst rank
+ * it may have within its type (default 1). Ranks are printed for search
+ * and fuzzySearch; the script fails when fuzzySearch misses a fixture.
+ * The same fixtures run in `bun test` (src/utils/search-relevance.test.ts).
+ */
+import { search, fuzzySearch } from '../src/index';
+import type { LocationSearchResult, LocationType, SearchResult, AnyLocation } from '../src/index';
+import fixtures from './fixtures/search-relevance.json';
+
+interface RelevanceFixture {
+  query: string;
+  type: LocationType;
+  slug: string;
+  rank?: number;
+  note?: string;
+}
+
+const RESULT_KEYS: Record<LocationType, keyof LocationSearchResult> = {
+  division: 'divisions',
+  district: 'districts',
+  upazila: 'upazilas',
+  union: 'unions',
+  cityCorporation: 'cityCorporations',
+  municipality: 'municipalities',
+  ward: 'wards',
+  thana: 'thanas',
+};
+
+function rankOf(result: LocationSearchResult, fixture: RelevanceFixture): number | undefined {
+  const results = result[RESULT_KEYS[fixture.type]] as SearchResult<AnyLocation>[];
+  const index = results.findIndex((r) => r.item.slug === fixture.slug);
+  return index === -1 ? undefined : index + 1;
+}
+
+const format = (rank: number | undefined) => (rank === undefined ? '-' : String(rank)).padStart(6);
+
+let failures = 0;
+const reciprocal = { search: 0, fuzzySearch: 0 };
+
+console.log(`${'query'.padEnd(16)} ${'expected'.padEnd(16)} search  fuzzy`);
+
+for (const fixture of fixtures as RelevanceFixture[]) {
+  const options = { types: [fixture.type] };
+  const searchRank = rankOf(search(fixture.query, options), fixture);
+  const fuzzyRank = rankOf(fuzzySearch(fixture.query, options), fixture);
+  const passed = fuzzyRank !== undefined && fuzzyRank <= (fixture.rank ?? 1);
+
+  reciprocal.search += searchRank ? 1 / searchRank : 0;
+  reciprocal.fuzzySearch += fuzzyRank ? 1 / fuzzyRank : 0;
+  if (!passed) failures++;
+
+  console.log(
+    `${fixture.query.padEnd(16)} ${fixture.slug.padEnd(16)} ${format(searchRank)} ${format(fuzzyRank)}` +
+      `${passed ? '' : '  FAIL'}${fixture.note ? `  (${fixture.note})` : ''}`
+  );
+}
+
+const total = fixtures.length;
+console.log(`\nPassed ${total - failures}/${total}`);
+console.log(
+  `Mean reciprocal rank: search ${(reciprocal.search / total).toFixed(3)}, fuzzySearch ${(reciprocal.fuzzySearch / total).toFixed(3)}`
+);
+
+if (failures > 0) process.exit(1);
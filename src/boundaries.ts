@@ -0,0 +1,25 @@
+/**
+ * bd-address-pro/boundaries
+ * Reverse geocoding against administrative boundary polygons you register
+ * (no geometry is bundled):
+ *
+ *   import { registerBoundaries, reverseGeocode } from 'bd-address-pro/boundaries';
+ */
+
+export {
+  createBoundaryFunctions,
+  registerBoundaries,
+  getContainingLocations,
+  reverseGeocode,
+  isWithinBoundary,
+} from './utils/boundaries';
+
+export type {
+  BoundaryType,
+  Position,
+  BoundaryGeometry,
+  BoundaryFeature,
+  BoundaryCollection,
+} from './utils/boundaries';
+
+export type { LocationDataset } from './utils/dataset';
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  searchCommand,
+  getCommand,
+  treeCommand,
+  postalCommand,
+  validateCommand,
+  normalizeCommand,
+} from './commands';
+
+describe('search', () => {
+  test('returns ranked rows with the path of each match', () => {
+    const output = searchCommand(['savar'], { limit: '1' });
+
+    expect(output.exitCode).toBeUndefined();
+    expect(output.rows).toHaveLength(1);
+    expect(output.rows[0]).toMatchObject({ type: 'upazila', name: 'Savar', in: 'Dhaka, Dhaka' });
+  });
+
+  test('limits results to --district', () => {
+    const output = searchCommand(['sadar'], { district: 'barguna', type: 'upazila' });
+
+    expect(output.rows.map((row) => row.name)).toEqual(['Barguna Sadar']);
+  });
+
+  test('exits with 1 when nothing matches', () => {
+    const output = searchCommand(['qqqqqqqq'], {});
+
+    expect(output.rows).toEqual([]);
+    expect(output.exitCode).toBe(1);
+  });
+
+  test('fails on an unknown type or scope', () => {
+    expect(() => searchCommand(['dhaka'], { type: 'village' })).toThrow('Unknown type "village"');
+    expect(() => searchCommand(['dhaka'], { district: 'nowhere' })).toThrow('Unknown district "nowhere"');
+    expect(() => searchCommand([], {})).toThrow('Usage');
+  });
+});
+
+describe('get', () => {
+  test('shows a location field by field', () => {
+    const output = getCommand(['district', 'barguna']);
+
+    expect(output.rows).toContainEqual({ field: 'name', value: 'Barguna' });
+    expect(output.json).toMatchObject({ id: 1, slug: 'barguna' });
+  });
+
+  test('exits with 1 for an unknown location', () => {
+    expect(getCommand(['district', 'nowhere']).exitCode).toBe(1);
+  });
+});
+
+describe('tree', () => {
+  test('lists the hierarchy below a district', () => {
+    const output = treeCommand({ district: 'barguna', depth: '2' });
+
+    expect(output.rows).toContainEqual({ districtId: 1, district: 'Barguna', upazilaId: 1, upazila: 'Amtali' });
+    expect(output.text?.split('\n')[0]).toBe('Barguna (বরগুনা)');
+  });
+});
+
+describe('postal', () => {
+  test('exits with 1 for an unknown postal code', () => {
+    const output = postalCommand(['0000']);
+
+    expect(output.rows).toEqual([]);
+    expect(output.exitCode).toBe(1);
+  });
+});
+
+describe('validate', () => {
+  test('accepts a valid address', () => {
+    const output = validateCommand({ division: 'barishal', district: 'barguna', upazila: 'amtali' });
+
+    expect(output.exitCode).toBeUndefined();
+    expect(output.message).toBe('Address is valid');
+  });
+
+  test('exits with 1 and lists the errors of an invalid address', () => {
+    const output = validateCommand({ division: 'dhaka', district: 'barguna' });
+
+    expect(output.exitCode).toBe(1);
+    expect(output.rows.length).toBeGreaterThan(0);
+  });
+});
+
+describe('normalize', () => {
+  test('adds resolved columns next to the input columns', () => {
+    const output = normalizeCommand('address,district\n"Savar, Dhaka",x\nxyz,y\n', {});
+
+    expect(output.rows[0]).toMatchObject({
+      address: 'Savar, Dhaka',
+      district: 'x',
+      resolved_district: 'Dhaka',
+      resolved_upazila: 'Savar',
+    });
+    expect(output.rows[1]).toMatchObject({ district: 'y', resolved_confidence: '0.00' });
+    expect(output.message).toBe('Resolved 1 of 2 addresses');
+  });
+
+  test('fails when the input already has resolved columns', () => {
+    expect(() => normalizeCommand('address,resolved_district\nSavar,Dhaka\n', {})).toThrow('resolved_district');
+  });
+
+  test('fails without the address column', () => {
+    expect(() => normalizeCommand('name,city\na,b\n', {})).toThrow('No column "address"');
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Commands of the bd-address command-line tool
+ * Each command turns its arguments into rows (or a JSON document) and
+ * leaves printing and exit codes to the entry point
+ */
+
+import {
+  searchAll,
+  getDivisionById,
+  getDivisionBySlug,
+  getDivisionByName,
+  getDistrictById,
+  getDistrictBySlug,
+  getDistrictByName,
+  getUpazilaById,
+  getUpazilaBySlug,
+  getUpazilaByName,
+  getUnionById,
+  getUnionBySlug,
+  getUnionByName,
+  getCityCorporationById,
+  getCityCorporationBySlug,
+  getCityCorporationByName,
+  getMunicipalityById,
+  getMunicipalityBySlug,
+  getMunicipalityByName,
+  getWardById,
+  getWardBySlug,
+  getThanaById,
+  getThanaBySlug,
+  getThanaByName,
+  getPostOfficeByCode,
+  getAllDivisions,
+  getDistrictsByDivision,
+  getUpazilasByDistrict,
+  getUnionsByUpazila,
+  lookupPostalCode,
+  validateAddress,
+  parseAddress,
+} from '../index';
+import type { AnyLocation, LocationType, LocationPath, SearchScope, AddressInput } from '../index';
+import type { Row } from './output';
+import { parseCsv } from './csv';
+
+/**
+ * Flags shared by the commands
+ */
+export interface CliFlags {
+  type?: string;
+  limit?: string;
+  division?: string;
+  district?: string;
+  upazila?: string;
+  union?: string;
+  'postal-code'?: string;
+  depth?: string;
+  column?: string;
+}
+
+/**
+ * What a command produced
+ */
+export interface CommandOutput {
+  rows: Row[];
+  /** Printed instead of the rows with --format json */
+  json?: unknown;
+  /** Printed instead of the rows with --format table */
+  text?: string;
+  /** Message for stderr */
+  message?: string;
+  /** Process exit code (default 0) */
+  exitCode?: number;
+}
+
+/** Location types by their command-line spelling (lowercase, no separators) */
+const LOCATION_TYPES: Record<string, LocationType> = {
+  division: 'division',
+  district: 'district',
+  upazila: 'upazila',
+  union: 'union',
+  citycorporation: 'cityCorporation',
+  municipality: 'municipality',
+  ward: 'ward',
+  thana: 'thana',
+};
+
+const lookups: Record<
+  LocationType,
+  {
+    byId: (id: number) => AnyLocation | undefined;
+    bySlug: (slug: string) => AnyLocation | undefined;
+    byName?: (name: string) => AnyLocation | undefined;
+  }
+> = {
+  division: { byId: getDivisionById, bySlug: getDivisionBySlug, byName: getDivisionByName },
+  district: { byId: getDistrictById, bySlug: getDistrictBySlug, byName: getDistrictByName },
+  upazila: { byId: getUpazilaById, bySlug: getUpazilaBySlug, byName: getUpazilaByName },
+  union: { byId: getUnionById, bySlug: getUnionBySlug, byName: getUnionByName },
+  cityCorporation: {
+    byId: getCityCorporationById,
+    bySlug: getCityCorporationBySlug,
+    byName: getCityCorporationByName,
+  },
+  municipality: {
+    byId: getMunicipalityById,
+    bySlug: getMunicipalityBySlug,
+    byName: getMunicipalityByName,
+  },
+  ward: { byId: getWardById, bySlug: getWardBySlug },
+  thana: { byId: getThanaById, bySlug: getThanaBySlug, byName: getThanaByName },
+};
+
+/**
+ * Parse a location type as typed ("city-corporation", "cityCorporation", ...)
+ */
+function parseType(value: string): LocationType {
+  const type = LOCATION_TYPES[value.toLowerCase().replace(/[-_\s]/g, '')];
+  if (!type) {
+    throw new Error(`Unknown type "${value}" (expected one of: ${Object.values(LOCATION_TYPES).join(', ')})`);
+  }
+  return type;
+}
+
+/**
+ * Find a location by id, slug or name
+ */
+function findLocation(type: LocationType, value: string): AnyLocation | undefined {
+  const lookup = lookups[type];
+  if (/^\d+$/.test(value)) return lookup.byId(Number(value));
+  return lookup.bySlug(value) ?? lookup.byName?.(value);
+}
+
+/**
+ * Find a location given as a flag, or fail with a usage error
+ */
+function requireLocation(type: LocationType, value: string): AnyLocation {
+  const location = findLocation(type, value);
+  if (!location) throw new Error(`Unknown ${type} "${value}"`);
+  return location;
+}
+
+function parseNumber(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw new Error(`--${name} must be a whole number`);
+  return number;
+}
+
+/**
+ * Names of a location's ancestors, nearest first ("Savar, Dhaka, Dhaka")
+ */
+function formatPath(path: LocationPath): string {
+  return [path.upazila, path.cityCorporation, path.municipality, path.district, path.division]
+    .filter((location) => location !== undefined)
+    .map((location) => location.name)
+    .join(', ');
+}
+
+/**
+ * `search <query>`: ranked search across every level
+ */
+export function searchCommand(args: string[], flags: CliFlags): CommandOutput {
+  const query = args.join(' ').trim();
+  if (!query) throw new Error('Usage: bd-address search <query>');
+
+  const within: SearchScope = {};
+  if (flags.division) within.divisionId = requireLocation('division', flags.division).id;
+  if (flags.district) within.districtId = requireLocation('district', flags.district).id;
+  if (flags.upazila) within.upazilaId = requireLocation('upazila', flags.upazila).id;
+
+  const results = searchAll(query, {
+    limit: parseNumber(flags.limit, 'limit', 10),
+    within,
+    ...(flags.type && { types: flags.type.split(',').map(parseType) }),
+  });
+
+  return {
+    rows: results.map((r) => ({
+      type: r.type,
+      id: r.item.id,
+      name: r.item.name,
+      bnName: r.item.bnName,
+      slug: r.item.slug,
+      in: formatPath(r.path),
+      score: r.score.toFixed(2),
+      match: r.matchKind,
+    })),
+    ...(results.length === 0 && { message: `No matches for "${query}"`, exitCode: 1 }),
+  };
+}
+
+/**
+ * `get <type> <id|slug|name>`: one location, field by field
+ */
+export function getCommand(args: string[]): CommandOutput {
+  const [typeArg, value] = args;
+  if (!typeArg || !value) throw new Error('Usage: bd-address get <type> <id|slug|name>');
+
+  const isPostOffice = typeArg.toLowerCase().replace(/[-_\s]/g, '') === 'postoffice';
+  const item = isPostOffice ? getPostOfficeByCode(value) : findLocation(parseType(typeArg), value);
+  if (!item) return { rows: [], message: `No ${typeArg} "${value}"`, exitCode: 1 };
+
+  return {
+    rows: Object.entries(item).map(([field, v]) => ({
+      field,
+      value: typeof v === 'object' ? JSON.stringify(v) : (v as string | number),
+    })),
+    json: item,
+  };
+}
+
+type TreeLevel = 'division' | 'district' | 'upazila' | 'union';
+
+const TREE_LEVELS: TreeLevel[] = ['division', 'district', 'upazila', 'union'];
+
+interface TreeNode {
+  id: number;
+  name: string;
+  bnName: string;
+  slug: string;
+  children?: TreeNode[];
+}
+
+const childrenOf: Record<TreeLevel, (id: number) => AnyLocation[]> = {
+  division: getDistrictsByDivision,
+  district: getUpazilasByDistrict,
+  upazila: getUnionsByUpazila,
+  union: () => [],
+};
+
+/**
+ * `tree [--division x | --district x] [--depth n]`: the hierarchy below a
+ * location (every division by default), three levels deep by default
+ */
+export function treeCommand(flags: CliFlags): CommandOutput {
+  const start: TreeLevel = flags.district ? 'district' : 'division';
+  const roots = flags.district
+    ? [requireLocation('district', flags.district)]
+    : flags.division
+      ? [requireLocation('division', flags.division)]
+      : getAllDivisions();
+  const depth = Math.max(1, parseNumber(flags.depth, 'depth', 3));
+  const levels = TREE_LEVELS.slice(TREE_LEVELS.indexOf(start), TREE_LEVELS.indexOf(start) + depth);
+
+  const build = (location: AnyLocation, level: number): TreeNode => {
+    const { id, name, bnName, slug } = location;
+    const childLevel = levels[level + 1];
+    if (!childLevel) return { id, name, bnName, slug };
+    const children = childrenOf[levels[level] as TreeLevel](id).map((child) => build(child, level + 1));
+    return { id, name, bnName, slug, children };
+  };
+  const tree = roots.map((root) => build(root, 0));
+
+  // One row per leaf, with the ids and names of every level above it
+  const rows: Row[] = [];
+  const lines: string[] = [];
+  const walk = (node: TreeNode, level: number, parents: Row) => {
+    const levelName = levels[level] as TreeLevel;
+    const row = { ...parents, [`${levelName}Id`]: node.id, [levelName]: node.name };
+    lines.push(`${'  '.repeat(level)}${node.name} (${node.bnName})`);
+    if (node.children?.length) {
+      node.children.forEach((child) => walk(child, level + 1, row));
+    } else {
+      rows.push(row);
+    }
+  };
+  tree.forEach((node) => walk(node, 0, {}));
+
+  return { rows, json: tree, text: lines.join('\n') + '\n' };
+}
+
+/**
+ * `postal <code>`: post offices using a postal code, with their area
+ */
+export function postalCommand(args: string[]): CommandOutput {
+  const [code] = args;
+  if (!code) throw new Error('Usage: bd-address postal <code>');
+
+  const matches = lookupPostalCode(code);
+  if (matches.length === 0) return { rows: [], message: `No post office with postal code ${code}`, exitCode: 1 };
+
+  return {
+    rows: matches.map(({ postOffice, address, urbanAddress }) => ({
+      code: postOffice.code,
+      postOffice: postOffice.name,
+      bnPostOffice: postOffice.bnName,
+      area: address?.upazila.name ?? urbanAddress?.thana?.name,
+      district: (address ?? urbanAddress)?.district.name,
+      division: (address ?? urbanAddress)?.division.name,
+    })),
+    json: matches,
+  };
+}
+
+/**
+ * `validate --division x --district x --upazila x [--union x] [--postal-code c]`:
+ * check an address; locations may be given by id, slug or name
+ */
+export function validateCommand(flags: CliFlags): CommandOutput {
+  const idOf = (type: TreeLevel, value: string | undefined) => {
+    if (value === undefined) return undefined;
+    // Unknown ids are reported by validateAddress, unknown names here
+    return /^\d+$/.test(value) ? Number(value) : requireLocation(type, value).id;
+  };
+
+  const input: AddressInput = {
+    divisionId: idOf('division', flags.division),
+    districtId: idOf('district', flags.district),
+    upazilaId: idOf('upazila', flags.upazila),
+    unionId: idOf('union', flags.union),
+    postalCode: flags['postal-code'],
+  };
+  const result = validateAddress(input);
+
+  return {
+    rows: result.errors.map((error) => ({
+      code: error.code,
+      field: error.field,
+      message: error.message,
+      bnMessage: error.bnMessage,
+      suggestion: error.suggestion ? `${error.suggestion.field}=${error.suggestion.value}` : undefined,
+    })),
+    json: result,
+    ...(result.valid ? { message: 'Address is valid' } : { exitCode: 1 }),
+  };
+}
+
+/** Prefix of the columns normalize adds, so they never replace input columns */
+const RESOLVED_PREFIX = 'resolved_';
+
+/**
+ * `normalize --in addresses.csv [--column address]`: resolve the address
+ * column of every row and add ids, canonical names and confidence, as
+ * `resolved_*` columns next to the input columns
+ */
+export function normalizeCommand(input: string, flags: CliFlags): CommandOutput {
+  const [header, ...records] = parseCsv(input);
+  if (!header) throw new Error('The input has no header row');
+
+  const wanted = flags.column ?? (header.length === 1 ? header[0] : 'address');
+  const column = header.findIndex((name) => name.trim().toLowerCase() === wanted?.trim().toLowerCase());
+  if (column === -1) throw new Error(`No column "${wanted}" in the input (use --column)`);
+
+  const taken = header.filter((name) => name.startsWith(RESOLVED_PREFIX));
+  if (taken.length > 0) {
+    throw new Error(`The input already has ${taken.map((name) => `"${name}"`).join(', ')} (was it normalized before?)`);
+  }
+
+  let resolved = 0;
+  const rows = records.map((record): Row => {
+    const parsed = parseAddress(record[column] ?? '');
+    const { division, district, upazila, union } = parsed.address ?? parsed.components;
+    const thana = parsed.urbanAddress?.thana;
+    if (parsed.address || parsed.urbanAddress) resolved++;
+
+    const fields: Row = {
+      divisionId: division?.id,
+      districtId: district?.id,
+      upazilaId: upazila?.id,
+      unionId: union?.id,
+      thanaId: thana?.id,
+      division: division?.name,
+      district: district?.name,
+      upazila: upazila?.name,
+      union: union?.name,
+      thana: thana?.name,
+      postalCode: parsed.postalCode,
+      confidence: parsed.confidence.toFixed(2),
+    };
+
+    return {
+      ...Object.fromEntries(header.map((name, i) => [name, record[i] ?? ''])),
+      ...Object.fromEntries(Object.entries(fields).map(([name, value]) => [RESOLVED_PREFIX + name, value])),
+    };
+  });
+
+  return { rows, message: `Resolved ${resolved} of ${records.length} addresses` };
+}
@@ -0,0 +1,69 @@
+/**
+ * CSV reading and writing for the command-line tool
+ * RFC 4180: comma separated, fields quoted with double quotes when they
+ * contain a comma, quote or line break; CRLF or LF line ends
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * @param text - CSV text (a leading BOM is ignored)
+ * @returns Rows; blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Quote a field when it needs it
+ */
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write rows of fields as CSV
+ * @param rows - Rows of fields
+ * @returns CSV text with LF line ends and a final line end
+ */
+export function stringifyCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * bd-address - command-line tool for Bangladesh address data
+ * Lookups, search, postal codes, validation and batch address cleaning
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import packageJson from '../../package.json';
+import {
+  searchCommand,
+  getCommand,
+  treeCommand,
+  postalCommand,
+  validateCommand,
+  normalizeCommand,
+} from './commands';
+import type { CliFlags, CommandOutput } from './commands';
+import { formatRows, OUTPUT_FORMATS } from './output';
+import type { OutputFormat } from './output';
+
+const HELP = `Usage: bd-address <command> [options]
+
+Commands:
+  search <query>                 Search every level (--type, --limit, --division, --district, --upazila)
+  get <type> <id|slug|name>      Show one location (division, district, upazila, union,
+                                 city-corporation, municipality, ward, thana, post-office)
+  tree                           Show the hierarchy (--division or --district, --depth)
+  postal <code>                  Look up a postal code
+  validate                       Check an address (--division, --district, --upazila,
+                                 --union, --postal-code; by id, slug or name)
+  normalize --in <file>          Resolve the address column of a CSV file (--column, --out)
+
+Options:
+  -f, --format <json|table|csv>  Output format (default table; csv for normalize)
+  -o, --out <file>               Write the output to a file
+  -h, --help                     Show this help
+  -v, --version                  Show the version
+`;
+
+function run(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      in: { type: 'string' },
+      type: { type: 'string' },
+      limit: { type: 'string' },
+      division: { type: 'string' },
+      district: { type: 'string' },
+      upazila: { type: 'string' },
+      union: { type: 'string' },
+      'postal-code': { type: 'string' },
+      depth: { type: 'string' },
+      column: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean', short: 'v' },
+    },
+  });
+
+  if (values.version) {
+    process.stdout.write(`${packageJson.version}\n`);
+    return 0;
+  }
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(HELP);
+    return values.help ? 0 : 2;
+  }
+
+  const format = (values.format ?? (command === 'normalize' ? 'csv' : 'table')) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${format}" (expected one of: ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  const flags: CliFlags = values;
+
+  let output: CommandOutput;
+  switch (command) {
+    case 'search':
+      output = searchCommand(args, flags);
+      break;
+    case 'get':
+      output = getCommand(args);
+      break;
+    case 'tree':
+      output = treeCommand(flags);
+      break;
+    case 'postal':
+      output = postalCommand(args);
+      break;
+    case 'validate':
+      output = validateCommand(flags);
+      break;
+    case 'normalize': {
+      const input = values.in ?? args[0];
+      if (!input) throw new Error('Usage: bd-address normalize --in <file.csv> [--out <file>]');
+      output = normalizeCommand(readFileSync(input === '-' ? 0 : input, 'utf8'), flags);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (see bd-address --help)`);
+  }
+
+  const text =
+    format === 'json' && output.json !== undefined
+      ? JSON.stringify(output.json, null, 2) + '\n'
+      : format === 'table' && output.text !== undefined
+        ? output.text
+        : formatRows(output.rows, format);
+
+  if (values.out) {
+    writeFileSync(values.out, text);
+  } else {
+    process.stdout.write(text);
+  }
+  if (output.message) process.stderr.write(`${output.message}\n`);
+  return output.exitCode ?? 0;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  process.stderr.write(`bd-address: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 2;
+}
@@ -0,0 +1,74 @@
+/**
+ * Output formats of the command-line tool
+ * Every command produces rows of named values, printed as JSON, an aligned
+ * table or CSV
+ */
+
+import { stringifyCsv } from './csv';
+
+export type OutputFormat = 'json' | 'table' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'csv'];
+
+/** One output row; undefined values print as empty cells */
+export type Row = Record<string, string | number | undefined>;
+
+const segmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : undefined;
+
+/**
+ * Terminal width of a text: one column per grapheme cluster, so Bengali
+ * vowel signs and conjuncts don't push the columns apart
+ */
+function displayWidth(text: string): number {
+  if (!segmenter || !/[^\x00-\x7F]/.test(text)) return text.length;
+  return Array.from(segmenter.segment(text)).length;
+}
+
+/**
+ * Columns of a list of rows, in order of first appearance
+ */
+function getColumns(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
+
+const cell = (value: string | number | undefined) => (value === undefined ? '' : String(value));
+
+/**
+ * Render rows as an aligned table with a header line
+ */
+function formatTable(rows: Row[]): string {
+  const columns = getColumns(rows);
+  const lines = [columns, ...rows.map((row) => columns.map((column) => cell(row[column])))];
+  const widths = columns.map((_, i) => Math.max(...lines.map((line) => displayWidth(line[i] as string))));
+  const pad = (text: string, i: number) => text + ' '.repeat((widths[i] as number) - displayWidth(text));
+
+  const [header, ...body] = lines.map((line) => line.map(pad).join('  ').trimEnd());
+  const separator = widths.map((width) => '-'.repeat(width)).join('  ');
+  return [header, separator, ...body].join('\n') + '\n';
+}
+
+/**
+ * Render rows in an output format
+ * @param rows - Rows to print
+ * @param format - 'json', 'table' or 'csv'
+ * @returns Text ending in a line break
+ */
+export function formatRows(rows: Row[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(rows, null, 2) + '\n';
+    case 'csv': {
+      const columns = getColumns(rows);
+      return stringifyCsv([columns, ...rows.map((row) => columns.map((column) => cell(row[column])))]);
+    }
+    case 'table':
+      return rows.length > 0 ? formatTable(rows) : '';
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * bd-address-pro/districts
+ * The 64 districts (and their divisions), without the upazila and union
+ * data:
+ *
+ *   import { getDistrictsByDivision } from 'bd-address-pro/districts';
+ */
+
+export {
+  getAllDistricts,
+  getDistrictById,
+  getDistrictBySlug,
+  getDistrictByName,
+  getDistrictsByDivision,
+  getDistrictsByDivisionSlug,
+  getDivisionOfDistrict,
+  isValidDistrict,
+  isDistrictInDivision,
+  getDistrictCount,
+  getDistrictNames,
+  getDistrictOptions,
+  getRawDistricts,
+} from './utils/districts';
+
+export { BangladeshDistrict } from './types/location.types';
+
+export type { District, Division } from './types/location.types';
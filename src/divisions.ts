@@ -0,0 +1,22 @@
+/**
+ * bd-address-pro/divisions
+ * The 8 divisions on their own, without the district, upazila and union
+ * data, for apps that only need the first level:
+ *
+ *   import { getDivisionOptions } from 'bd-address-pro/divisions';
+ */
+
+export {
+  getAllDivisions,
+  getDivisionById,
+  getDivisionBySlug,
+  getDivisionByName,
+  isValidDivision,
+  getDivisionNames,
+  getDivisionOptions,
+  getRawDivisions,
+} from './utils/divisions';
+
+export { BangladeshDivision } from './types/location.types';
+
+export type { Division, BaseLocation, Coordinates, LocationAlias, AliasType } from './types/location.types';
@@ -13,15 +13,32 @@ import type {
   District,
   Upazila,
   Union,
+  CityCorporation,
+  Municipality,
+  Ward,
+  Thana,
+  AreaType,
   FullAddress,
+  UrbanAddress,
+  LocationOption,
   Coordinates,
   BaseLocation,
   SearchResult,
   LocationSearchResult,
+  RankedSearchResult,
+  LocationPath,
+  HighlightRange,
+  HighlightSegment,
+  MatchKind,
+  AutocompleteResult,
   LocationType,
   AnyLocation,
   LocationStats,
   PostalInfo,
+  PostOffice,
+  PostalCodeMatch,
+  AliasType,
+  LocationAlias,
 } from './types/location.types';
 
 export {
@@ -35,740 +52,313 @@ export type {
   District,
   Upazila,
   Union,
+  CityCorporation,
+  Municipality,
+  Ward,
+  Thana,
+  AreaType,
   FullAddress,
+  UrbanAddress,
+  LocationOption,
   Coordinates,
   BaseLocation,
   SearchResult,
   LocationSearchResult,
+  RankedSearchResult,
+  LocationPath,
+  HighlightRange,
+  HighlightSegment,
+  MatchKind,
+  AutocompleteResult,
   LocationType,
   AnyLocation,
   LocationStats,
   PostalInfo,
+  PostOffice,
+  PostalCodeMatch,
+  AliasType,
+  LocationAlias,
 };
 
+// ============================================================
+// Division, District, Upazila & Union Imports & Exports
+// ============================================================
+export {
+  getAllDivisions,
+  getDivisionById,
+  getDivisionBySlug,
+  getDivisionByName,
+  isValidDivision,
+  getDivisionNames,
+  getDivisionOptions,
+  getRawDivisions,
+} from './utils/divisions';
+
+export {
+  getAllDistricts,
+  getDistrictById,
+  getDistrictBySlug,
+  getDistrictByName,
+  getDistrictsByDivision,
+  getDistrictsByDivisionSlug,
+  getDivisionOfDistrict,
+  isValidDistrict,
+  isDistrictInDivision,
+  getDistrictCount,
+  getDistrictNames,
+  getDistrictOptions,
+  getRawDistricts,
+} from './utils/districts';
+
+export {
+  getAllUpazilas,
+  getUpazilaById,
+  getUpazilaBySlug,
+  getUpazilaByName,
+  getUpazilasByDistrict,
+  getUpazilasByDistrictSlug,
+  getUpazilasByDivision,
+  getDistrictOfUpazila,
+  getFullAddress,
+  getFullAddressBySlug,
+  isValidUpazila,
+  isUpazilaInDistrict,
+  isUpazilaInDivision,
+  getUpazilaCount,
+  getUpazilaCountByDivision,
+  getUpazilaNames,
+  getUpazilaOptions,
+  getRawUpazilas,
+} from './utils/upazilas';
+
+export {
+  getAllUnions,
+  getUnionById,
+  getUnionBySlug,
+  getUnionByName,
+  getUnionsByUpazila,
+  getUnionsByUpazilaSlug,
+  getUnionsByDistrict,
+  getUnionsByDivision,
+  getUpazilaOfUnion,
+  getFullAddressOfUnion,
+  isValidUnion,
+  isUnionInUpazila,
+  getUnionOptions,
+  getRawUnions,
+} from './utils/unions';
+
+export { loadUpazilas, loadUnions, loadSearch } from './utils/loaders';
+
 // ============================================================
 // Search Imports & Exports
 // ============================================================
 export {
   search,
+  searchAll,
   quickSearch,
   searchDivisions,
   searchDistricts,
   searchUpazilas,
   searchUnions,
+  searchCityCorporations,
+  searchMunicipalities,
+  searchWards,
+  searchThanas,
   autocomplete,
   fuzzySearch,
   searchBengali,
   searchEnglish,
 } from './utils/search';
 
-export type { SearchOptions } from './utils/search';
-
-// ============================================================
-// Static Data Imports (bundled for compatibility)
-// ============================================================
-import divisionsJson from './data/divisions.json';
-import districtsJson from './data/districts.json';
-import upazilasJson from './data/upazilas.json';
-import unionsJson from './data/unions.json';
-
-const divisionsData = divisionsJson as Division[];
-const districtsData = districtsJson as District[];
-const upazilasData = upazilasJson as Upazila[];
-const unionsData = unionsJson as Union[];
-
-// ============================================================
-// Data Access Functions
-// ============================================================
+export { warmSearchIndex } from './utils/search-index';
 
-/**
- * Get all divisions
- * @returns Array of all 8 divisions of Bangladesh
- */
-export function getAllDivisions(): Division[] {
-  return [...divisionsData];
-}
+export { transliterateBengali, toPhoneticKey } from './utils/transliteration';
 
-/**
- * Get all districts
- * @returns Array of all 64 districts of Bangladesh
- */
-export function getAllDistricts(): District[] {
-  return [...districtsData];
-}
+export { findHighlights, getHighlightSegments } from './utils/highlight';
 
-/**
- * Get all upazilas
- * @returns Array of all 495 upazilas of Bangladesh
- */
-export function getAllUpazilas(): Upazila[] {
-  return [...upazilasData];
-}
-
-/**
- * Get all unions
- * @returns Array of all 4579 unions of Bangladesh
- */
-export function getAllUnions(): Union[] {
-  return [...unionsData];
-}
+export type { SearchOptions, SearchScope, ScoringStrategy } from './utils/search';
 
 // ============================================================
-// Division Functions
+// Parser Imports & Exports
 // ============================================================
+export { parseAddress } from './utils/parser';
 
-/**
- * Get a division by ID
- * @param id - Division ID (1-8)
- * @returns Division or undefined
- */
-export function getDivisionById(id: number): Division | undefined {
-  return divisionsData.find((d) => d.id === id);
-}
-
-/**
- * Get a division by slug
- * @param slug - Division slug (e.g., 'dhaka', 'chattogram')
- * @returns Division or undefined
- */
-export function getDivisionBySlug(slug: string): Division | undefined {
-  return divisionsData.find((d) => d.slug === slug.toLowerCase());
-}
-
-/**
- * Get a division by name (English or Bengali)
- * @param name - Division name
- * @returns Division or undefined
- */
-export function getDivisionByName(name: string): Division | undefined {
-  const lowerName = name.toLowerCase();
-  return divisionsData.find(
-    (d) => d.name.toLowerCase() === lowerName || d.bnName === name
-  );
-}
+export type {
+  AddressLabel,
+  ParsedSegment,
+  ParsedAddress,
+  ParseAddressOptions,
+} from './utils/parser';
 
 // ============================================================
-// District Functions
+// Batch Resolution Imports & Exports
 // ============================================================
+export { resolveBatch } from './utils/batch';
 
-/**
- * Get a district by ID
- * @param id - District ID (1-64)
- * @returns District or undefined
- */
-export function getDistrictById(id: number): District | undefined {
-  return districtsData.find((d) => d.id === id);
-}
-
-/**
- * Get a district by slug
- * @param slug - District slug (e.g., 'dhaka', 'sylhet')
- * @returns District or undefined
- */
-export function getDistrictBySlug(slug: string): District | undefined {
-  return districtsData.find((d) => d.slug === slug.toLowerCase());
-}
-
-/**
- * Get a district by name (English or Bengali)
- * @param name - District name
- * @returns District or undefined
- */
-export function getDistrictByName(name: string): District | undefined {
-  const lowerName = name.toLowerCase();
-  return districtsData.find(
-    (d) => d.name.toLowerCase() === lowerName || d.bnName === name
-  );
-}
-
-/**
- * Get all districts in a division
- * @param divisionId - Division ID
- * @returns Array of districts
- */
-export function getDistrictsByDivision(divisionId: number): District[] {
-  return districtsData.filter((d) => d.divisionId === divisionId);
-}
-
-/**
- * Get all districts in a division by division slug
- * @param divisionSlug - Division slug (e.g., 'dhaka')
- * @returns Array of districts
- */
-export function getDistrictsByDivisionSlug(divisionSlug: string): District[] {
-  const division = getDivisionBySlug(divisionSlug);
-  if (!division) return [];
-  return getDistrictsByDivision(division.id);
-}
+export type {
+  BatchLevel,
+  BatchStrategy,
+  BatchStatus,
+  ResolveBatchOptions,
+  BatchCandidate,
+  BatchFieldMatch,
+  BatchRowResult,
+  BatchUnmatchedValue,
+  BatchSummary,
+  BatchResult,
+} from './utils/batch';
 
 // ============================================================
-// Upazila Functions
+// Address Book Imports & Exports
 // ============================================================
+export { createAddressBook, checkAddressBookData } from './utils/address-book';
 
-/**
- * Get an upazila by ID
- * @param id - Upazila ID
- * @returns Upazila or undefined
- */
-export function getUpazilaById(id: number): Upazila | undefined {
-  return upazilasData.find((u) => u.id === id);
-}
-
-/**
- * Get an upazila by slug
- * @param slug - Upazila slug
- * @returns Upazila or undefined
- */
-export function getUpazilaBySlug(slug: string): Upazila | undefined {
-  return upazilasData.find((u) => u.slug === slug.toLowerCase());
-}
-
-/**
- * Get an upazila by name (English or Bengali)
- * @param name - Upazila name
- * @returns Upazila or undefined
- */
-export function getUpazilaByName(name: string): Upazila | undefined {
-  const lowerName = name.toLowerCase();
-  return upazilasData.find(
-    (u) => u.name.toLowerCase() === lowerName || u.bnName === name
-  );
-}
-
-/**
- * Get all upazilas in a district
- * @param districtId - District ID
- * @returns Array of upazilas
- */
-export function getUpazilasByDistrict(districtId: number): Upazila[] {
-  return upazilasData.filter((u) => u.districtId === districtId);
-}
-
-/**
- * Get all upazilas in a district by district slug
- * @param districtSlug - District slug
- * @returns Array of upazilas
- */
-export function getUpazilasByDistrictSlug(districtSlug: string): Upazila[] {
-  const district = getDistrictBySlug(districtSlug);
-  if (!district) return [];
-  return getUpazilasByDistrict(district.id);
-}
-
-/**
- * Get all upazilas in a division
- * @param divisionId - Division ID
- * @returns Array of upazilas
- */
-export function getUpazilasByDivision(divisionId: number): Upazila[] {
-  const divisionDistricts = getDistrictsByDivision(divisionId);
-  const districtIds = new Set(divisionDistricts.map((d) => d.id));
-  return upazilasData.filter((u) => districtIds.has(u.districtId));
-}
+export type {
+  AddressBook,
+  AddressBookOptions,
+  AddressBookExtension,
+  AddressBookLevel,
+  AddressBookIssue,
+  AddressBookIssueCode,
+  LocationPatch,
+  WithMeta,
+} from './utils/address-book';
 
 // ============================================================
-// Union Functions
+// Geo Imports & Exports
 // ============================================================
+export { haversineDistance, findNearest, getLocationsWithinRadius } from './utils/geo';
 
-/**
- * Get a union by ID
- * @param id - Union ID
- * @returns Union or undefined
- */
-export function getUnionById(id: number): Union | undefined {
-  return unionsData.find((u) => u.id === id);
-}
-
-/**
- * Get a union by slug
- * @param slug - Union slug
- * @returns Union or undefined
- */
-export function getUnionBySlug(slug: string): Union | undefined {
-  return unionsData.find((u) => u.slug === slug.toLowerCase());
-}
-
-/**
- * Get a union by name (English or Bengali)
- * @param name - Union name
- * @returns Union or undefined
- */
-export function getUnionByName(name: string): Union | undefined {
-  const lowerName = name.toLowerCase();
-  return unionsData.find(
-    (u) => u.name.toLowerCase() === lowerName || u.bnName === name
-  );
-}
-
-/**
- * Get all unions in an upazila
- * @param upazilaId - Upazila ID
- * @returns Array of unions
- */
-export function getUnionsByUpazila(upazilaId: number): Union[] {
-  return unionsData.filter((u) => u.upazilaId === upazilaId);
-}
-
-/**
- * Get all unions in an upazila by upazila slug
- * @param upazilaSlug - Upazila slug
- * @returns Array of unions
- */
-export function getUnionsByUpazilaSlug(upazilaSlug: string): Union[] {
-  const upazila = getUpazilaBySlug(upazilaSlug);
-  if (!upazila) return [];
-  return getUnionsByUpazila(upazila.id);
-}
-
-/**
- * Get all unions in a district
- * @param districtId - District ID
- * @returns Array of unions
- */
-export function getUnionsByDistrict(districtId: number): Union[] {
-  const districtUpazilas = getUpazilasByDistrict(districtId);
-  const upazilaIds = new Set(districtUpazilas.map((u) => u.id));
-  return unionsData.filter((u) => upazilaIds.has(u.upazilaId));
-}
-
-/**
- * Get all unions in a division
- * @param divisionId - Division ID
- * @returns Array of unions
- */
-export function getUnionsByDivision(divisionId: number): Union[] {
-  const divisionUpazilas = getUpazilasByDivision(divisionId);
-  const upazilaIds = new Set(divisionUpazilas.map((u) => u.id));
-  return unionsData.filter((u) => upazilaIds.has(u.upazilaId));
-}
+export type {
+  NearbyLocation,
+  FindNearestOptions,
+  RadiusOptions,
+  GeoLocationType,
+  GeoLocation,
+} from './utils/geo';
 
 // ============================================================
-// Relationship Functions
+// Validation Imports & Exports
 // ============================================================
+export { validateAddress } from './utils/validation';
 
-/**
- * Get the parent division of a district
- * @param districtId - District ID
- * @returns Division or undefined
- */
-export function getDivisionOfDistrict(districtId: number): Division | undefined {
-  const district = getDistrictById(districtId);
-  if (!district) return undefined;
-  return getDivisionById(district.divisionId);
-}
-
-/**
- * Get the parent district of an upazila
- * @param upazilaId - Upazila ID
- * @returns District or undefined
- */
-export function getDistrictOfUpazila(upazilaId: number): District | undefined {
-  const upazila = getUpazilaById(upazilaId);
-  if (!upazila) return undefined;
-  return getDistrictById(upazila.districtId);
-}
-
-/**
- * Get the parent upazila of a union
- * @param unionId - Union ID
- * @returns Upazila or undefined
- */
-export function getUpazilaOfUnion(unionId: number): Upazila | undefined {
-  const union = getUnionById(unionId);
-  if (!union) return undefined;
-  return getUpazilaById(union.upazilaId);
-}
-
-/**
- * Get the full address hierarchy for an upazila
- * @param upazilaId - Upazila ID
- * @returns FullAddress or undefined
- */
-export function getFullAddress(upazilaId: number): FullAddress | undefined {
-  const upazila = getUpazilaById(upazilaId);
-  if (!upazila) return undefined;
-
-  const district = getDistrictById(upazila.districtId);
-  if (!district) return undefined;
-
-  const division = getDivisionById(district.divisionId);
-  if (!division) return undefined;
-
-  return { division, district, upazila };
-}
-
-/**
- * Get the full address hierarchy for a union
- * @param unionId - Union ID
- * @returns FullAddress with union or undefined
- */
-export function getFullAddressOfUnion(unionId: number): FullAddress | undefined {
-  const union = getUnionById(unionId);
-  if (!union) return undefined;
-
-  const upazila = getUpazilaById(union.upazilaId);
-  if (!upazila) return undefined;
-
-  const district = getDistrictById(upazila.districtId);
-  if (!district) return undefined;
-
-  const division = getDivisionById(district.divisionId);
-  if (!division) return undefined;
-
-  return { division, district, upazila, union };
-}
-
-/**
- * Get full address by upazila slug
- * @param upazilaSlug - Upazila slug
- * @returns FullAddress or undefined
- */
-export function getFullAddressBySlug(upazilaSlug: string): FullAddress | undefined {
-  const upazila = getUpazilaBySlug(upazilaSlug);
-  if (!upazila) return undefined;
-  return getFullAddress(upazila.id);
-}
+export type {
+  AddressInput,
+  AddressField,
+  AddressErrorCode,
+  AddressValidationError,
+  AddressValidationResult,
+  ValidateAddressOptions,
+} from './utils/validation';
 
 // ============================================================
-// Formatting Functions
+// Schema Imports & Exports
 // ============================================================
+export {
+  createAddressJsonSchema,
+  getAddressEnumValues,
+  checkAddressPayload,
+} from './utils/schema';
 
-/**
- * Format a full address as a string
- * @param address - FullAddress object
- * @param options - Formatting options
- * @returns Formatted address string
- */
-export function formatAddress(
-  address: FullAddress,
-  options?: {
-    language?: 'en' | 'bn';
-    separator?: string;
-    includeUpazila?: boolean;
-    includeDistrict?: boolean;
-    includeDivision?: boolean;
-  }
-): string {
-  const {
-    language = 'en',
-    separator = ', ',
-    includeUpazila = true,
-    includeDistrict = true,
-    includeDivision = true,
-  } = options || {};
-
-  const getName = (item: { name: string; bnName: string }) =>
-    language === 'bn' ? item.bnName : item.name;
-
-  const parts: string[] = [];
-
-  if (includeUpazila) parts.push(getName(address.upazila));
-  if (includeDistrict) parts.push(getName(address.district));
-  if (includeDivision) parts.push(getName(address.division));
-
-  return parts.join(separator);
-}
-
-/**
- * Format address for display with Bengali names
- * @param address - FullAddress object
- * @returns Formatted Bengali address string
- */
-export function formatAddressBengali(address: FullAddress): string {
-  return formatAddress(address, { language: 'bn' });
-}
-
-/**
- * Format address for display with English names
- * @param address - FullAddress object
- * @returns Formatted English address string
- */
-export function formatAddressEnglish(address: FullAddress): string {
-  return formatAddress(address, { language: 'en' });
-}
+export type {
+  AddressPayload,
+  AddressPayloadField,
+  AddressSchemaOptions,
+  AddressSchemaIssue,
+  AddressEnumValues,
+  SchemaLanguage,
+  JsonSchema,
+} from './utils/schema';
 
 // ============================================================
-// Statistics Functions
+// Address Selector Imports & Exports
 // ============================================================
+export { createAddressSelector } from './utils/address-selector';
 
-/**
- * Get statistics about the location data
- * @returns LocationStats object
- */
-export function getStats(): LocationStats {
-  const divisionDistrictMap: Record<number, number> = {};
-  const districtUpazilaMap: Record<number, number> = {};
-  const upazilaUnionMap: Record<number, number> = {};
-
-  for (const district of districtsData) {
-    divisionDistrictMap[district.divisionId] =
-      (divisionDistrictMap[district.divisionId] || 0) + 1;
-  }
-
-  for (const upazila of upazilasData) {
-    districtUpazilaMap[upazila.districtId] =
-      (districtUpazilaMap[upazila.districtId] || 0) + 1;
-  }
-
-  for (const union of unionsData) {
-    upazilaUnionMap[union.upazilaId] =
-      (upazilaUnionMap[union.upazilaId] || 0) + 1;
-  }
-
-  return {
-    totalDivisions: divisionsData.length,
-    totalDistricts: districtsData.length,
-    totalUpazilas: upazilasData.length,
-    totalUnions: unionsData.length,
-    divisionDistrictMap,
-    districtUpazilaMap,
-    upazilaUnionMap,
-  };
-}
-
-/**
- * Get district count for a division
- * @param divisionId - Division ID
- * @returns Number of districts
- */
-export function getDistrictCount(divisionId: number): number {
-  return getDistrictsByDivision(divisionId).length;
-}
-
-/**
- * Get upazila count for a district
- * @param districtId - District ID
- * @returns Number of upazilas
- */
-export function getUpazilaCount(districtId: number): number {
-  return getUpazilasByDistrict(districtId).length;
-}
-
-/**
- * Get upazila count for a division
- * @param divisionId - Division ID
- * @returns Number of upazilas
- */
-export function getUpazilaCountByDivision(divisionId: number): number {
-  return getUpazilasByDivision(divisionId).length;
-}
+export type {
+  AddressSelector,
+  AddressSelectorOptions,
+  AddressSelectorChange,
+  AddressSelection,
+  SelectorLevel,
+  SelectorOption,
+} from './utils/address-selector';
 
 // ============================================================
-// Postal Code Functions
+// Normalization Imports & Exports
 // ============================================================
-
-/**
- * Get postal code range for a district
- * @param districtId - District ID
- * @returns Postal code range (e.g., "8700-8799") or undefined
- */
-export function getDistrictPostalCode(districtId: number): string | undefined {
-  const district = getDistrictById(districtId);
-  return district?.postalCode;
-}
-
-/**
- * Get postal code for an upazila
- * @param upazilaId - Upazila ID
- * @returns Specific postal code (e.g., "8730") or undefined
- */
-export function getUpazilaPostalCode(upazilaId: number): string | undefined {
-  const upazila = getUpazilaById(upazilaId);
-  return upazila?.postalCode;
-}
-
-/**
- * Get postal code for a union (via its upazila)
- * @param unionId - Union ID
- * @returns Postal code of the union's upazila or undefined
- */
-export function getUnionPostalCode(unionId: number): string | undefined {
-  const union = getUnionById(unionId);
-  if (!union) return undefined;
-  return getUpazilaPostalCode(union.upazilaId);
-}
-
-/**
- * Get full postal information for a location
- * @param upazilaId - Upazila ID
- * @returns Object with upazila postal code and district postal code range
- */
-export function getPostalInfo(upazilaId: number): PostalInfo | undefined {
-  const upazila = getUpazilaById(upazilaId);
-  if (!upazila?.postalCode) return undefined;
-  
-  const district = getDistrictById(upazila.districtId);
-  if (!district?.postalCode) return undefined;
-  
-  return {
-    postalCode: upazila.postalCode,
-    districtRange: district.postalCode,
-  };
-}
+export {
+  toAsciiDigits,
+  toBengaliDigits,
+  stripInvisible,
+  canonicalizeBengali,
+  cleanPunctuation,
+  normalizeText,
+  normalizeName,
+} from './utils/normalize';
 
 // ============================================================
-// Validation Functions
+// Formatting Imports & Exports
 // ============================================================
+export {
+  formatAddress,
+  formatAddressBengali,
+  formatAddressEnglish,
+  formatAddressTemplate,
+  getAddressTemplate,
+} from './utils/format';
 
-/**
- * Check if a division ID is valid
- * @param id - Division ID to check
- * @returns boolean
- */
-export function isValidDivision(id: number): boolean {
-  return getDivisionById(id) !== undefined;
-}
-
-/**
- * Check if a district ID is valid
- * @param id - District ID to check
- * @returns boolean
- */
-export function isValidDistrict(id: number): boolean {
-  return getDistrictById(id) !== undefined;
-}
-
-/**
- * Check if an upazila ID is valid
- * @param id - Upazila ID to check
- * @returns boolean
- */
-export function isValidUpazila(id: number): boolean {
-  return getUpazilaById(id) !== undefined;
-}
-
-/**
- * Check if a district belongs to a division
- * @param districtId - District ID
- * @param divisionId - Division ID
- * @returns boolean
- */
-export function isDistrictInDivision(districtId: number, divisionId: number): boolean {
-  const district = getDistrictById(districtId);
-  return district !== undefined && district.divisionId === divisionId;
-}
-
-/**
- * Check if an upazila belongs to a district
- * @param upazilaId - Upazila ID
- * @param districtId - District ID
- * @returns boolean
- */
-export function isUpazilaInDistrict(upazilaId: number, districtId: number): boolean {
-  const upazila = getUpazilaById(upazilaId);
-  return upazila !== undefined && upazila.districtId === districtId;
-}
-
-/**
- * Check if an upazila belongs to a division
- * @param upazilaId - Upazila ID
- * @param divisionId - Division ID
- * @returns boolean
- */
-export function isUpazilaInDivision(upazilaId: number, divisionId: number): boolean {
-  const district = getDistrictOfUpazila(upazilaId);
-  return district !== undefined && district.divisionId === divisionId;
-}
+export type { AddressStyle, AddressDetails, FormatTemplateOptions } from './utils/format';
 
 // ============================================================
-// List Helpers
+// Postal Code Imports & Exports
 // ============================================================
-
-/**
- * Get list of division names
- * @param language - 'en' for English, 'bn' for Bengali
- * @returns Array of division names
- */
-export function getDivisionNames(language: 'en' | 'bn' = 'en'): string[] {
-  return divisionsData.map((d) => (language === 'bn' ? d.bnName : d.name));
-}
-
-/**
- * Get list of district names
- * @param language - 'en' for English, 'bn' for Bengali
- * @returns Array of district names
- */
-export function getDistrictNames(language: 'en' | 'bn' = 'en'): string[] {
-  return districtsData.map((d) => (language === 'bn' ? d.bnName : d.name));
-}
-
-/**
- * Get list of upazila names
- * @param language - 'en' for English, 'bn' for Bengali
- * @returns Array of upazila names
- */
-export function getUpazilaNames(language: 'en' | 'bn' = 'en'): string[] {
-  return upazilasData.map((u) => (language === 'bn' ? u.bnName : u.name));
-}
-
-/**
- * Get dropdown options for divisions
- * @returns Array of { value, label, labelBn } objects
- */
-export function getDivisionOptions(): { value: string; label: string; labelBn: string }[] {
-  return divisionsData.map((d) => ({
-    value: d.slug,
-    label: d.name,
-    labelBn: d.bnName,
-  }));
-}
-
-/**
- * Get dropdown options for districts
- * @param divisionId - Optional division ID to filter by
- * @returns Array of { value, label, labelBn } objects
- */
-export function getDistrictOptions(
-  divisionId?: number
-): { value: string; label: string; labelBn: string }[] {
-  const data = divisionId
-    ? getDistrictsByDivision(divisionId)
-    : districtsData;
-  return data.map((d) => ({
-    value: d.slug,
-    label: d.name,
-    labelBn: d.bnName,
-  }));
-}
-
-/**
- * Get dropdown options for upazilas
- * @param districtId - Optional district ID to filter by
- * @returns Array of { value, label, labelBn } objects
- */
-export function getUpazilaOptions(
-  districtId?: number
-): { value: string; label: string; labelBn: string }[] {
-  const data = districtId
-    ? getUpazilasByDistrict(districtId)
-    : upazilasData;
-  return data.map((u) => ({
-    value: u.slug,
-    label: u.name,
-    labelBn: u.bnName,
-  }));
-}
+export {
+  getDistrictPostalCode,
+  getUpazilaPostalCode,
+  getUnionPostalCode,
+  getPostalInfo,
+  getAllPostOffices,
+  getPostOfficeByCode,
+  getPostOfficesByUpazila,
+  getPostOfficesByThana,
+  getPostOfficesByDistrict,
+  lookupPostalCode,
+} from './utils/postal';
 
 // ============================================================
-// Raw Data Getters (for advanced usage)
+// Urban Area Imports & Exports
 // ============================================================
-
-/** Get raw divisions data */
-export function getRawDivisions(): Division[] {
-  return divisionsData;
-}
-
-/** Get raw districts data */
-export function getRawDistricts(): District[] {
-  return districtsData;
-}
-
-/** Get raw upazilas data */
-export function getRawUpazilas(): Upazila[] {
-  return upazilasData;
-}
-
-/** Get raw unions data */
-export function getRawUnions(): Union[] {
-  return unionsData;
-}
+export {
+  getAllCityCorporations,
+  getAllMunicipalities,
+  getAllWards,
+  getAllThanas,
+  getCityCorporationById,
+  getCityCorporationBySlug,
+  getCityCorporationByName,
+  getCityCorporationsByDistrict,
+  getMunicipalityById,
+  getMunicipalityBySlug,
+  getMunicipalityByName,
+  getMunicipalitiesByDistrict,
+  getMunicipalitiesByUpazila,
+  getWardById,
+  getWardBySlug,
+  getWardsByCityCorporation,
+  getAreaType,
+  getThanaById,
+  getThanaBySlug,
+  getThanaByName,
+  getThanasByDistrict,
+  getThanasByCityCorporation,
+  getFullAddressOfMunicipality,
+  getFullAddressOfWard,
+  getFullAddressOfThana,
+  getStats,
+  getRawCityCorporations,
+  getRawMunicipalities,
+  getRawWards,
+  getRawThanas,
+} from './utils/urban';
@@ -0,0 +1,10 @@
+/**
+ * bd-address-pro/loaders
+ * Async loaders for the heavy datasets, for apps that show divisions and
+ * districts right away and fetch the rest on demand:
+ *
+ *   import { loadUnions } from 'bd-address-pro/loaders';
+ *   const { getUnionOptions } = await loadUnions();
+ */
+
+export { loadUpazilas, loadUnions, loadSearch } from './utils/loaders';
@@ -0,0 +1,45 @@
+/**
+ * bd-address-pro/search
+ * Search, autocomplete and highlighting. The index covers every location
+ * type, so this entry carries all of the location data; load it on demand
+ * with `loadSearch()` to keep it out of the initial bundle:
+ *
+ *   import { searchAll } from 'bd-address-pro/search';
+ */
+
+export {
+  search,
+  searchAll,
+  quickSearch,
+  searchDivisions,
+  searchDistricts,
+  searchUpazilas,
+  searchUnions,
+  searchCityCorporations,
+  searchMunicipalities,
+  searchWards,
+  searchThanas,
+  autocomplete,
+  fuzzySearch,
+  searchBengali,
+  searchEnglish,
+} from './utils/search';
+
+export { warmSearchIndex } from './utils/search-index';
+
+export { findHighlights, getHighlightSegments } from './utils/highlight';
+
+export type { SearchOptions, SearchScope, ScoringStrategy } from './utils/search';
+
+export type {
+  SearchResult,
+  LocationSearchResult,
+  RankedSearchResult,
+  LocationPath,
+  HighlightRange,
+  HighlightSegment,
+  MatchKind,
+  AutocompleteResult,
+  LocationType,
+  AnyLocation,
+} from './types/location.types';
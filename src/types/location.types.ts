@@ -581,16 +581,30 @@ export interface Coordinates {
   longitude: number;
 }
 
+// Kind of alternate name
+export type AliasType = 'former' | 'colloquial' | 'misspelling';
+
+// Alternate (historical, colloquial or misspelled) name of a location
+export interface LocationAlias {
+  name?: string;   // English alias (e.g., "Chittagong")
+  bnName?: string; // Bengali alias (e.g., "চিটাগাং")
+  type: AliasType;
+}
+
 // Base location interface
-export interface BaseLocation {
+// Base of every location; M is the type of your own metadata
+// (registered through createAddressBook)
+export interface BaseLocation<M = unknown> {
   id: number;
   name: string;
   bnName: string;
   slug: string;
+  aliases?: LocationAlias[];
+  meta?: M;
 }
 
 // Division interface with additional metadata
-export interface Division extends BaseLocation {
+export interface Division<M = unknown> extends BaseLocation<M> {
   coordinates?: Coordinates;
   area?: number; // in sq km
   population?: number;
@@ -598,7 +612,7 @@ export interface Division extends BaseLocation {
 }
 
 // District interface with division reference
-export interface District extends BaseLocation {
+export interface District<M = unknown> extends BaseLocation<M> {
   divisionId: number;
   coordinates?: Coordinates;
   area?: number;
@@ -607,7 +621,7 @@ export interface District extends BaseLocation {
 }
 
 // Upazila interface with district reference
-export interface Upazila extends BaseLocation {
+export interface Upazila<M = unknown> extends BaseLocation<M> {
   districtId: number;
   coordinates?: Coordinates;
   area?: number;
@@ -616,19 +630,73 @@ export interface Upazila extends BaseLocation {
 }
 
 // Union interface with upazila reference
-export interface Union extends BaseLocation {
+export interface Union<M = unknown> extends BaseLocation<M> {
   upazilaId: number;
   coordinates?: Coordinates;
   area?: number;
   population?: number;
 }
 
+// City corporation interface with district reference
+export interface CityCorporation<M = unknown> extends BaseLocation<M> {
+  districtId: number;
+  wardCount: number;
+  coordinates?: Coordinates;
+}
+
+// Municipality (pourashava) interface with district and upazila references
+export interface Municipality<M = unknown> extends BaseLocation<M> {
+  districtId: number;
+  upazilaId: number;
+  coordinates?: Coordinates;
+}
+
+// Ward of a city corporation or municipality
+export interface Ward<M = unknown> extends BaseLocation<M> {
+  wardNumber: number;
+  cityCorporationId?: number;
+  municipalityId?: number;
+  coordinates?: Coordinates;
+}
+
+// Metropolitan police station (thana) with district and city corporation references
+export interface Thana<M = unknown> extends BaseLocation<M> {
+  districtId: number;
+  cityCorporationId: number; // City corporation of the metropolitan area
+  coordinates?: Coordinates;
+}
+
+// Whether an area is urban (city corporation, municipality, ward, thana), rural
+// (union, or a division, district or upazila without urban units) or contains both
+export type AreaType = 'urban' | 'rural' | 'mixed';
+
 // Full address information
-export interface FullAddress {
+export interface FullAddress<M = unknown> {
+  division: Division<M>;
+  district: District<M>;
+  upazila: Upazila<M>;
+  union?: Union<M>;
+  municipality?: Municipality<M>; // Present when using getFullAddressOfMunicipality
+}
+
+// Dropdown option of a location (meta is set when the location has it)
+export interface LocationOption<M = unknown> {
+  value: string; // Slug
+  label: string;
+  labelBn: string;
+  meta?: M;
+}
+
+// Address of a city corporation ward or metropolitan thana
+// (city corporations are not part of an upazila)
+export interface UrbanAddress {
   division: Division;
   district: District;
-  upazila: Upazila;
-  union?: Union;
+  upazila?: Upazila; // Set for municipality wards
+  cityCorporation?: CityCorporation;
+  municipality?: Municipality;
+  ward?: Ward;
+  thana?: Thana;
 }
 
 // Postal information for a location
@@ -637,23 +705,105 @@ export interface PostalInfo {
   districtRange: string; // District postal code range (e.g., "1000-1399")
 }
 
+// Post office with its 4-digit postal code; linked to an upazila
+// or, in metropolitan areas, to a thana
+export interface PostOffice {
+  id: number;
+  name: string;
+  bnName: string;
+  code: string; // 4-digit postal code (e.g., "1216")
+  districtId: number;
+  upazilaId?: number;
+  thanaId?: number;
+}
+
+// Post office matching a postal code, with its place in the hierarchy
+export interface PostalCodeMatch {
+  postOffice: PostOffice;
+  address?: FullAddress;       // Post offices in an upazila
+  urbanAddress?: UrbanAddress; // Metropolitan post offices
+}
+
+// Character range [start, end) of a match within the matched text
+export type HighlightRange = [number, number];
+
+// Part of a matched text, for rendering highlights
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// How a search result matched the query
+export type MatchKind = 'exact' | 'prefix' | 'substring' | 'fuzzy' | 'alias' | 'phonetic';
+
 // Search result types
 export interface SearchResult<T> {
   item: T;
   score: number;
-  matchedField: 'name' | 'bnName' | 'slug';
+  matchedField: 'name' | 'bnName' | 'slug' | 'alias';
+  matchedAlias?: LocationAlias; // Set when matchedField is 'alias'
+  matchedText: string; // Name, slug or alias the query matched
+  matchKind: MatchKind;
+  highlights: HighlightRange[]; // Ranges of the query in matchedText, on grapheme boundaries
+}
+
+// Autocomplete suggestion
+export interface AutocompleteResult<M = unknown> {
+  name: string;
+  bnName: string;
+  type: LocationType;
+  item: AnyLocation<M>;
+  matchedText: string; // Name or alias the query is a prefix of
+  matchKind: MatchKind;
+  highlights: HighlightRange[];
+}
+
+// Ancestors of a location, from the division down
+export interface LocationPath<M = unknown> {
+  division?: Division<M>;
+  district?: District<M>;
+  upazila?: Upazila<M>;
+  cityCorporation?: CityCorporation<M>;
+  municipality?: Municipality<M>;
+}
+
+// Search result of any level, ranked in one list with its ancestors
+export interface RankedSearchResult<T extends AnyLocation = AnyLocation> extends SearchResult<T> {
+  type: LocationType;
+  path: LocationPath;
+  group: number; // Results sharing a name share a group number (0 = first group)
 }
 
-export interface LocationSearchResult {
-  divisions: SearchResult<Division>[];
-  districts: SearchResult<District>[];
-  upazilas: SearchResult<Upazila>[];
-  unions: SearchResult<Union>[];
+export interface LocationSearchResult<M = unknown> {
+  divisions: SearchResult<Division<M>>[];
+  districts: SearchResult<District<M>>[];
+  upazilas: SearchResult<Upazila<M>>[];
+  unions: SearchResult<Union<M>>[];
+  cityCorporations: SearchResult<CityCorporation<M>>[];
+  municipalities: SearchResult<Municipality<M>>[];
+  wards: SearchResult<Ward<M>>[];
+  thanas: SearchResult<Thana<M>>[];
 }
 
 // Location type for unified operations
-export type LocationType = 'division' | 'district' | 'upazila' | 'union';
-export type AnyLocation = Division | District | Upazila | Union;
+export type LocationType =
+  | 'division'
+  | 'district'
+  | 'upazila'
+  | 'union'
+  | 'cityCorporation'
+  | 'municipality'
+  | 'ward'
+  | 'thana';
+export type AnyLocation<M = unknown> =
+  | Division<M>
+  | District<M>
+  | Upazila<M>
+  | Union<M>
+  | CityCorporation<M>
+  | Municipality<M>
+  | Ward<M>
+  | Thana<M>;
 
 // Statistics interface
 export interface LocationStats {
@@ -661,6 +811,10 @@ export interface LocationStats {
   totalDistricts: number;
   totalUpazilas: number;
   totalUnions: number;
+  totalCityCorporations: number;
+  totalMunicipalities: number;
+  totalWards: number;
+  totalThanas: number;
   divisionDistrictMap: Record<number, number>;
   districtUpazilaMap: Record<number, number>;
   upazilaUnionMap: Record<number, number>;
@@ -0,0 +1,26 @@
+/**
+ * bd-address-pro/unions
+ * The 4,579 unions, the largest dataset. Import it where unions are
+ * needed, or load it on demand with `loadUnions()`:
+ *
+ *   import { getUnionsByUpazila } from 'bd-address-pro/unions';
+ */
+
+export {
+  getAllUnions,
+  getUnionById,
+  getUnionBySlug,
+  getUnionByName,
+  getUnionsByUpazila,
+  getUnionsByUpazilaSlug,
+  getUnionsByDistrict,
+  getUnionsByDivision,
+  getUpazilaOfUnion,
+  getFullAddressOfUnion,
+  isValidUnion,
+  isUnionInUpazila,
+  getUnionOptions,
+  getRawUnions,
+} from './utils/unions';
+
+export type { Union, Upazila, FullAddress } from './types/location.types';
@@ -0,0 +1,32 @@
+/**
+ * bd-address-pro/upazilas
+ * The 495 upazilas and their full address hierarchy, without the union
+ * data. Also available lazily through `loadUpazilas()`:
+ *
+ *   import { getUpazilasByDistrict } from 'bd-address-pro/upazilas';
+ */
+
+export {
+  getAllUpazilas,
+  getUpazilaById,
+  getUpazilaBySlug,
+  getUpazilaByName,
+  getUpazilasByDistrict,
+  getUpazilasByDistrictSlug,
+  getUpazilasByDivision,
+  getDistrictOfUpazila,
+  getFullAddress,
+  getFullAddressBySlug,
+  isValidUpazila,
+  isUpazilaInDistrict,
+  isUpazilaInDivision,
+  getUpazilaCount,
+  getUpazilaCountByDivision,
+  getUpazilaNames,
+  getUpazilaOptions,
+  getRawUpazilas,
+} from './utils/upazilas';
+
+export { BangladeshUpazila } from './types/location.types';
+
+export type { Upazila, District, Division, FullAddress } from './types/location.types';
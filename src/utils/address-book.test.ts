@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { checkAddressBookData, createAddressBook } from './address-book';
+import { validateAddress } from './validation';
+
+const newpara = { id: 90001, upazilaId: 1, name: 'Newpara', bnName: 'নিউপাড়া', slug: 'newpara' };
+
+describe('createAddressBook', () => {
+  test('validation and parsing see extended unions', () => {
+    const book = createAddressBook({ extend: { unions: [newpara] } });
+    const address = { divisionId: 5, districtId: 1, upazilaId: 1, unionId: 90001 };
+
+    expect(book.validateAddress(address).valid).toBe(true);
+    expect(validateAddress(address).valid).toBe(false);
+    expect(book.parseAddress('Newpara, Amtali, Barguna').address?.union?.id).toBe(90001);
+  });
+
+  test('resolveBatch resolves async rows against the book', async () => {
+    const book = createAddressBook({ extend: { unions: [newpara] } });
+    async function* rows() {
+      yield { union: 'Newpara', upazila: 'Amtali' };
+    }
+
+    const result = await book.resolveBatch(rows());
+    expect(result.rows[0]?.address.union?.id).toBe(90001);
+  });
+
+  test('urban functions see extended municipalities and wards', () => {
+    const book = createAddressBook({
+      extend: {
+        municipalities: [{ id: 9001, districtId: 1, upazilaId: 1, name: 'Testpur', bnName: 'টেস্টপুর', slug: 'testpur' }],
+        wards: [{ id: 99001, municipalityId: 9001, name: 'Ward 1', bnName: 'ওয়ার্ড ১', slug: 'testpur-ward-1', wardNumber: 1 }],
+      },
+    });
+
+    expect(book.getWardsByMunicipality(9001).map((ward) => ward.id)).toEqual([99001]);
+    expect(book.getFullAddressOfWard(99001)?.district.id).toBe(1);
+  });
+});
+
+describe('checkAddressBookData', () => {
+  test('the bundled data has no problems', () => {
+    expect(checkAddressBookData()).toEqual([]);
+  });
+
+  test('a ward needs a city corporation or a municipality', () => {
+    const issues = checkAddressBookData({
+      extend: { wards: [{ id: 99002, name: 'Ward 2', bnName: 'ওয়ার্ড ২', slug: 'ward-99002' }] },
+    });
+
+    expect(issues.map(({ code, level, field }) => ({ code, level, field }))).toEqual([
+      { code: 'missing_field', level: 'ward', field: 'cityCorporationId' },
+    ]);
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Address books for Bangladesh address data
+ * An address book runs the module functions (lookups, urban areas, search,
+ * batch, parsing, validation, postal codes, geo, the address selector) over
+ * datasets of your own, or over the bundled data with your corrections and
+ * additions laid over it. Data is checked (unique ids
+ * and slugs, required fields, parent references) before it is used, and
+ * metadata of your own can be attached to every location
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  CityCorporation,
+  Municipality,
+  Ward,
+  Thana,
+  BaseLocation,
+  AnyLocation,
+  LocationType,
+  LocationOption,
+} from '../types/location.types';
+import { freezeData } from './freeze';
+import type { LocationDataset } from './dataset';
+import divisions, { createDivisionFunctions, getRawDivisions } from './divisions';
+import districts, { createDistrictFunctions, getRawDistricts } from './districts';
+import upazilas, { createUpazilaFunctions, getRawUpazilas } from './upazilas';
+import unions, { createUnionFunctions, getRawUnions } from './unions';
+import search, { createSearchFunctions } from './search';
+import { createSearchIndexFunctions, warmSearchIndex } from './search-index';
+import batch, { createBatchFunctions } from './batch';
+import type { ResolveBatchOptions, BatchResult } from './batch';
+import parser, { createParserFunctions } from './parser';
+import validation, { createValidationFunctions } from './validation';
+import postal, { createPostalFunctions } from './postal';
+import geo, { createGeoFunctions, haversineDistance } from './geo';
+import addressSelector, { createSelectorFunctions } from './address-selector';
+import urban, {
+  createUrbanFunctions,
+  getRawCityCorporations,
+  getRawMunicipalities,
+  getRawWards,
+  getRawThanas,
+} from './urban';
+import format from './format';
+
+/** Level of an address book dataset */
+export type AddressBookLevel = LocationType;
+
+/**
+ * Correction to the location with this id (fields to change, extra fields
+ * to add), or a complete new location
+ */
+export type LocationPatch<T extends BaseLocation> = Partial<T> & { id: number; [field: string]: unknown };
+
+/**
+ * Corrections and additions laid over the datasets, matched by id
+ */
+export interface AddressBookExtension {
+  divisions?: LocationPatch<Division>[];
+  districts?: LocationPatch<District>[];
+  upazilas?: LocationPatch<Upazila>[];
+  unions?: LocationPatch<Union>[];
+  cityCorporations?: LocationPatch<CityCorporation>[];
+  municipalities?: LocationPatch<Municipality>[];
+  wards?: LocationPatch<Ward>[];
+  thanas?: LocationPatch<Thana>[];
+}
+
+/**
+ * Address book options interface
+ */
+export interface AddressBookOptions<M = unknown> {
+  /** Divisions to use instead of the bundled ones */
+  divisions?: readonly Division[];
+  /** Districts to use instead of the bundled ones */
+  districts?: readonly District[];
+  /** Upazilas to use instead of the bundled ones */
+  upazilas?: readonly Upazila[];
+  /** Unions to use instead of the bundled ones */
+  unions?: readonly Union[];
+  /** City corporations to use instead of the bundled ones */
+  cityCorporations?: readonly CityCorporation[];
+  /** Municipalities (pourashavas) to use instead of the bundled ones */
+  municipalities?: readonly Municipality[];
+  /** Wards to use instead of the bundled ones */
+  wards?: readonly Ward[];
+  /** Metropolitan thanas to use instead of the bundled ones */
+  thanas?: readonly Thana[];
+  /** Corrections and additions laid over the datasets */
+  extend?: AddressBookExtension;
+  /**
+   * Metadata of a location (courier coverage, delivery SLA, ...), called
+   * once per location of every type when the book is created; the result
+   * is the location's `meta`
+   */
+  meta?: (location: Readonly<AnyLocation>, type: LocationType) => M;
+}
+
+export type AddressBookIssueCode = 'duplicate_id' | 'duplicate_slug' | 'missing_field' | 'unknown_parent';
+
+/**
+ * Problem found in address book data
+ */
+export interface AddressBookIssue {
+  code: AddressBookIssueCode;
+  level: AddressBookLevel;
+  /** Id of the location (NaN when it has none) */
+  id: number;
+  /** Field with the problem */
+  field: string;
+  message: string;
+}
+
+type AddressBookFunctions = typeof divisions &
+  typeof districts &
+  typeof upazilas &
+  typeof unions &
+  typeof search & { warmSearchIndex: typeof warmSearchIndex } &
+  typeof batch &
+  typeof parser &
+  typeof validation &
+  typeof postal &
+  typeof geo &
+  typeof addressSelector &
+  typeof format &
+  typeof urban & {
+    // No pourashava wards are bundled, so only books have this, for the wards they add
+    getWardsByMunicipality: ReturnType<typeof createUrbanFunctions>['getWardsByMunicipality'];
+  };
+
+/**
+ * Every module function, over a dataset
+ */
+function createBookFunctions(dataset: LocationDataset): AddressBookFunctions {
+  return {
+    ...createDivisionFunctions(dataset),
+    ...createDistrictFunctions(dataset),
+    ...createUpazilaFunctions(dataset),
+    ...createUnionFunctions(dataset),
+    ...createSearchFunctions(dataset),
+    ...createSearchIndexFunctions(dataset),
+    ...createBatchFunctions(dataset),
+    ...createParserFunctions(dataset),
+    ...createValidationFunctions(dataset),
+    ...createPostalFunctions(dataset),
+    ...createGeoFunctions(dataset),
+    ...createSelectorFunctions(dataset),
+    haversineDistance,
+    ...format,
+    ...createUrbanFunctions(dataset),
+  };
+}
+
+/**
+ * T with `meta: M` on every location and dropdown option in it, including
+ * those passed to callbacks such as the search `where` filter
+ */
+export type WithMeta<T, M> = T extends (...args: infer A) => infer R
+  ? (...args: { [K in keyof A]: WithMeta<A[K], M> }) => WithMeta<R, M>
+  : T extends BaseLocation | LocationOption
+    ? T & { meta: M }
+    : T extends object
+      ? { [K in keyof T]: WithMeta<T[K], M> }
+      : T;
+
+/**
+ * The module functions (lookups, urban areas, search, batch, parsing,
+ * validation, postal codes, geo, the address selector, formatting) over an
+ * address book's data; with a `meta` option (M), every location they
+ * return has its metadata. Post offices are the bundled ones
+ */
+export type AddressBook<M = unknown> = unknown extends M
+  ? AddressBookFunctions
+  : {
+      [K in keyof AddressBookFunctions]: K extends 'resolveBatch'
+        ? {
+            <R extends object>(rows: Iterable<R>, options?: ResolveBatchOptions): WithMeta<BatchResult<R>, M>;
+            <R extends object>(
+              rows: AsyncIterable<R>,
+              options?: ResolveBatchOptions
+            ): Promise<WithMeta<BatchResult<R>, M>>;
+          }
+        : WithMeta<AddressBookFunctions[K], M>;
+    };
+
+interface LevelSpec {
+  level: AddressBookLevel;
+  key: keyof AddressBookExtension;
+  /** Parent id fields and the levels they refer to */
+  parents: { field: string; level: AddressBookLevel }[];
+  /** At least one of the parent ids is enough (wards: city corporation or municipality) */
+  anyParent?: boolean;
+}
+
+const LEVEL_SPECS: LevelSpec[] = [
+  { level: 'division', key: 'divisions', parents: [] },
+  { level: 'district', key: 'districts', parents: [{ field: 'divisionId', level: 'division' }] },
+  { level: 'upazila', key: 'upazilas', parents: [{ field: 'districtId', level: 'district' }] },
+  { level: 'union', key: 'unions', parents: [{ field: 'upazilaId', level: 'upazila' }] },
+  { level: 'cityCorporation', key: 'cityCorporations', parents: [{ field: 'districtId', level: 'district' }] },
+  {
+    level: 'municipality',
+    key: 'municipalities',
+    parents: [
+      { field: 'districtId', level: 'district' },
+      { field: 'upazilaId', level: 'upazila' },
+    ],
+  },
+  {
+    level: 'ward',
+    key: 'wards',
+    parents: [
+      { field: 'cityCorporationId', level: 'cityCorporation' },
+      { field: 'municipalityId', level: 'municipality' },
+    ],
+    anyParent: true,
+  },
+  {
+    level: 'thana',
+    key: 'thanas',
+    parents: [
+      { field: 'districtId', level: 'district' },
+      { field: 'cityCorporationId', level: 'cityCorporation' },
+    ],
+  },
+];
+
+const BUNDLED: Record<AddressBookLevel, () => readonly BaseLocation[]> = {
+  division: getRawDivisions,
+  district: getRawDistricts,
+  upazila: getRawUpazilas,
+  union: getRawUnions,
+  cityCorporation: getRawCityCorporations,
+  municipality: getRawMunicipalities,
+  ward: getRawWards,
+  thana: getRawThanas,
+};
+
+/**
+ * Deep copy of plain data; structuredClone where the runtime has it (older
+ * React Native / Hermes builds don't)
+ */
+function clone<T>(value: T): T {
+  if (typeof structuredClone === 'function') return structuredClone(value);
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Datasets with the extension laid over them; new arrays (and new objects
+ * for given or changed locations), so the caller's data is left alone
+ */
+function buildDataset(options: AddressBookOptions): Record<AddressBookLevel, BaseLocation[]> {
+  const dataset = {} as Record<AddressBookLevel, BaseLocation[]>;
+
+  for (const { level, key } of LEVEL_SPECS) {
+    const given = options[key];
+    const items: BaseLocation[] = given ? given.map((item) => clone(item)) : [...BUNDLED[level]()];
+
+    const positions = new Map(items.map((item, position) => [item.id, position]));
+    for (const patch of options.extend?.[key] ?? []) {
+      const position = positions.get(patch.id);
+      if (position === undefined) {
+        positions.set(patch.id, items.length);
+        items.push(clone(patch) as unknown as BaseLocation);
+      } else {
+        items[position] = { ...items[position], ...clone(patch) } as BaseLocation;
+      }
+    }
+    dataset[level] = items;
+  }
+  return dataset;
+}
+
+/**
+ * Integrity problems of datasets: duplicate ids or slugs, missing names,
+ * slugs or parent ids, and parent ids that don't exist
+ */
+function findIssues(dataset: Record<AddressBookLevel, BaseLocation[]>): AddressBookIssue[] {
+  const issues: AddressBookIssue[] = [];
+
+  for (const { level, parents, anyParent } of LEVEL_SPECS) {
+    const ids = new Set<number>();
+    const slugs = new Set<string>();
+    const parentIds = parents.map((parent) => new Set(dataset[parent.level].map((item) => item.id)));
+
+    for (const item of dataset[level]) {
+      const record = item as unknown as Record<string, unknown>;
+      const id = Number.isInteger(record.id) ? item.id : NaN;
+      const issue = (code: AddressBookIssueCode, field: string, message: string) =>
+        issues.push({ code, level, id, field, message: `${level} ${Number.isNaN(id) ? '(no id)' : id}: ${message}` });
+
+      if (Number.isNaN(id)) issue('missing_field', 'id', 'id must be an integer');
+      else if (ids.has(id)) issue('duplicate_id', 'id', 'id is used by another ' + level);
+      ids.add(id);
+
+      for (const field of ['name', 'bnName', 'slug']) {
+        if (typeof record[field] !== 'string' || record[field] === '') {
+          issue('missing_field', field, `${field} must be a non-empty string`);
+        }
+      }
+      if (typeof record.slug === 'string' && record.slug !== '') {
+        if (slugs.has(record.slug)) issue('duplicate_slug', 'slug', `slug "${record.slug}" is used by another ${level}`);
+        slugs.add(record.slug);
+      }
+
+      if (anyParent && parents.every(({ field }) => record[field] === undefined)) {
+        const fields = parents.map(({ field }) => field).join(' or ');
+        issue('missing_field', parents[0]?.field ?? 'id', `${fields} must be a number`);
+      }
+      parents.forEach((parent, index) => {
+        const parentId = record[parent.field];
+        if (anyParent && parentId === undefined) return;
+        if (typeof parentId !== 'number') {
+          issue('missing_field', parent.field, `${parent.field} must be a number`);
+        } else if (!parentIds[index]?.has(parentId)) {
+          issue('unknown_parent', parent.field, `${parent.field} ${parentId} is not a ${parent.level}`);
+        }
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check address book data without creating the book
+ * @param options - Datasets and extension, as for createAddressBook
+ * @returns Problems found; empty when the data can be used
+ */
+export function checkAddressBookData(options: AddressBookOptions = {}): AddressBookIssue[] {
+  return findIssues(buildDataset(options));
+}
+
+/**
+ * Create an address book: the module functions over your own data.
+ * Datasets you leave out are the bundled ones; `extend` corrects locations
+ * (matched by id), adds fields to them or adds new ones; `meta` attaches
+ * metadata of your own to every location. The data is checked and frozen
+ * first
+ * @param options - Datasets, extension and metadata
+ * @returns Functions with the same names and signatures as the module functions
+ * @throws Error listing the problems when the data fails the checks
+ */
+export function createAddressBook<M = unknown>(options: AddressBookOptions<M> = {}): AddressBook<M> {
+  const built = buildDataset(options);
+  const issues = findIssues(built);
+  if (issues.length > 0) {
+    const listed = issues.slice(0, 10).map((issue) => `\n  - ${issue.message}`).join('');
+    const more = issues.length > 10 ? `\n  ... and ${issues.length - 10} more` : '';
+    throw new Error(
+      `Invalid address book data (${issues.length} ${issues.length === 1 ? 'problem' : 'problems'}):${listed}${more}`
+    );
+  }
+
+  const locations: LocationDataset = { ...built };
+  const { meta } = options;
+  if (meta) {
+    for (const [type, items] of Object.entries(locations) as [LocationType, readonly AnyLocation[]][]) {
+      locations[type] = items.map((item) => ({ ...item, meta: meta(item, type) }));
+    }
+  }
+
+  const dataset: LocationDataset = {};
+  for (const [type, items] of Object.entries(locations) as [LocationType, AnyLocation[]][]) {
+    dataset[type] = freezeData(items);
+  }
+
+  return Object.freeze(createBookFunctions(dataset)) as AddressBook<M>;
+}
+
+export default {
+  createAddressBook,
+  checkAddressBookData,
+};
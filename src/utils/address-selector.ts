@@ -0,0 +1,282 @@
+/**
+ * Address selector for Bangladesh address data
+ * Framework-agnostic state for division → district → upazila → union
+ * dropdowns; UI bindings (React, Vue, ...) subscribe to its changes
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  FullAddress,
+} from '../types/location.types';
+import { createDivisionFunctions } from './divisions';
+import { createDistrictFunctions } from './districts';
+import { createUpazilaFunctions } from './upazilas';
+import { createUnionFunctions } from './unions';
+import { bundledDataset } from './dataset';
+import type { LocationDataset } from './dataset';
+
+/** Level of the address selector, from the top */
+export type SelectorLevel = 'division' | 'district' | 'upazila' | 'union';
+
+/**
+ * Dropdown option of the address selector
+ */
+export interface SelectorOption {
+  id: number;
+  /** Slug */
+  value: string;
+  /** Name in the selector language */
+  label: string;
+}
+
+/**
+ * Current selection; a level is only set when every level above it is
+ */
+export interface AddressSelection {
+  division?: Division;
+  district?: District;
+  upazila?: Upazila;
+  union?: Union;
+}
+
+/**
+ * Change event of the address selector
+ */
+export interface AddressSelectorChange {
+  /**
+   * Level that was selected (parents filled in or children reset with it),
+   * undefined when only the language changed
+   */
+  level?: SelectorLevel;
+  selection: AddressSelection;
+  previous: AddressSelection;
+  /** Language of option labels */
+  language: 'en' | 'bn';
+}
+
+/**
+ * Address selector options interface
+ */
+export interface AddressSelectorOptions {
+  /** Language of option labels (default 'en') */
+  language?: 'en' | 'bn';
+  /** Initial selection by id; the lowest level given also fills its parents */
+  initial?: {
+    divisionId?: number;
+    districtId?: number;
+    upazilaId?: number;
+    unionId?: number;
+  };
+}
+
+/**
+ * Headless controller for cascading address dropdowns
+ */
+export interface AddressSelector {
+  /** Current selection */
+  getSelection(): AddressSelection;
+  /** Options of a level: every division, or the children of the selected parent */
+  getOptions(level: SelectorLevel): SelectorOption[];
+  /**
+   * Select a location by id or slug, or clear the level with undefined.
+   * Parents of the location are selected with it, and levels below are reset
+   * when it changes. Returns false (and changes nothing) for unknown values.
+   */
+  select(level: SelectorLevel, value: number | string | undefined): boolean;
+  /** Clear the whole selection */
+  reset(): void;
+  /** Full address once division, district and upazila are selected */
+  getFullAddress(): FullAddress | undefined;
+  getLanguage(): 'en' | 'bn';
+  /** Change the language of option labels, notifying subscribers */
+  setLanguage(language: 'en' | 'bn'): void;
+  /**
+   * Listen to selection changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (change: AddressSelectorChange) => void): () => void;
+}
+
+const defaultSelectorOptions: Required<AddressSelectorOptions> = {
+  language: 'en',
+  initial: {},
+};
+
+const LEVELS: SelectorLevel[] = ['division', 'district', 'upazila', 'union'];
+
+function findLocation<T>(
+  byId: (id: number) => T | undefined,
+  bySlug: (slug: string) => T | undefined,
+  value: number | string
+): T | undefined {
+  return typeof value === 'number' ? byId(value) : bySlug(value);
+}
+
+/**
+ * Build the address selector functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createSelectorFunctions(dataset: LocationDataset) {
+  const { getAllDivisions, getDivisionById, getDivisionBySlug } = createDivisionFunctions(dataset);
+  const { getDistrictById, getDistrictBySlug, getDistrictsByDivision } = createDistrictFunctions(dataset);
+  const { getUpazilaById, getUpazilaBySlug, getUpazilasByDistrict } = createUpazilaFunctions(dataset);
+  const { getUnionById, getUnionBySlug, getUnionsByUpazila } = createUnionFunctions(dataset);
+
+  // Selection ending at a location, with every parent filled in
+  const selectionOf = (level: SelectorLevel, value: number | string): AddressSelection | undefined => {
+    const selection: AddressSelection = {};
+
+    if (level === 'union') {
+      selection.union = findLocation(getUnionById, getUnionBySlug, value);
+      if (!selection.union) return undefined;
+      value = selection.union.upazilaId;
+    }
+    if (level === 'union' || level === 'upazila') {
+      selection.upazila = findLocation(getUpazilaById, getUpazilaBySlug, value);
+      if (!selection.upazila) return undefined;
+      value = selection.upazila.districtId;
+    }
+    if (level !== 'division') {
+      selection.district = findLocation(getDistrictById, getDistrictBySlug, value);
+      if (!selection.district) return undefined;
+      value = selection.district.divisionId;
+    }
+    selection.division = findLocation(getDivisionById, getDivisionBySlug, value);
+    return selection.division ? selection : undefined;
+  };
+
+  return {
+    createAddressSelector: (options?: AddressSelectorOptions): AddressSelector => {
+      const opts = { ...defaultSelectorOptions, ...options };
+      const listeners = new Set<(change: AddressSelectorChange) => void>();
+      let language = opts.language;
+      let selection: AddressSelection = {};
+
+      // Preselect from the lowest level given
+      const { divisionId, districtId, upazilaId, unionId } = opts.initial;
+      const initial: [SelectorLevel, number | undefined][] = [
+        ['union', unionId],
+        ['upazila', upazilaId],
+        ['district', districtId],
+        ['division', divisionId],
+      ];
+      for (const [level, id] of initial) {
+        if (id === undefined) continue;
+        const found = selectionOf(level, id);
+        if (found) {
+          selection = found;
+          break;
+        }
+      }
+
+      const toOption = (location: Division | District | Upazila | Union): SelectorOption => ({
+        id: location.id,
+        value: location.slug,
+        label: language === 'bn' ? location.bnName : location.name,
+      });
+
+      const notify = (change: AddressSelectorChange) => {
+        listeners.forEach((listener) => listener(change));
+      };
+
+      const update = (level: SelectorLevel, next: AddressSelection) => {
+        const changed = LEVELS.some((l) => selection[l]?.id !== next[l]?.id);
+        if (!changed) return;
+
+        const previous = selection;
+        selection = next;
+        notify({ level, selection: { ...selection }, previous: { ...previous }, language });
+      };
+
+      return {
+        getSelection() {
+          return { ...selection };
+        },
+
+        getOptions(level) {
+          switch (level) {
+            case 'division':
+              return getAllDivisions().map(toOption);
+            case 'district': {
+              const parent = selection.division;
+              return parent ? getDistrictsByDivision(parent.id).map(toOption) : [];
+            }
+            case 'upazila': {
+              const parent = selection.district;
+              return parent ? getUpazilasByDistrict(parent.id).map(toOption) : [];
+            }
+            case 'union': {
+              const parent = selection.upazila;
+              return parent ? getUnionsByUpazila(parent.id).map(toOption) : [];
+            }
+          }
+        },
+
+        select(level, value) {
+          if (value === undefined || value === '') {
+            // Keep the levels above, clear this one and everything below
+            const next = { ...selection };
+            for (const l of LEVELS.slice(LEVELS.indexOf(level))) delete next[l];
+            update(level, next);
+            return true;
+          }
+
+          const next = selectionOf(level, value);
+          if (!next) return false;
+
+          // Reselecting the current location keeps the levels below it
+          if (selection[level]?.id === next[level]?.id) return true;
+          update(level, next);
+          return true;
+        },
+
+        reset() {
+          update('division', {});
+        },
+
+        getFullAddress() {
+          const { division, district, upazila, union } = selection;
+          if (!division || !district || !upazila) return undefined;
+          return union ? { division, district, upazila, union } : { division, district, upazila };
+        },
+
+        getLanguage() {
+          return language;
+        },
+
+        setLanguage(next) {
+          if (next === language) return;
+          language = next;
+          notify({ selection: { ...selection }, previous: { ...selection }, language });
+        },
+
+        subscribe(listener) {
+          listeners.add(listener);
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+      };
+    },
+  };
+}
+
+const bundled = createSelectorFunctions(bundledDataset);
+
+/**
+ * Create a headless address selector: it holds the division → district →
+ * upazila → union selection, resets children when a parent changes and
+ * provides the options for each level.
+ * @param options - Label language and initial selection
+ * @returns Address selector
+ */
+export function createAddressSelector(options?: AddressSelectorOptions): AddressSelector {
+  return bundled.createAddressSelector(options);
+}
+
+export default {
+  createAddressSelector,
+};
@@ -0,0 +1,408 @@
+/**
+ * Batch address resolution for Bangladesh address data
+ * Resolves the free-text division, district, upazila and union columns of
+ * many rows at once, with per-row confidence and ambiguity lists and a
+ * summary of what could not be matched
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  FullAddress,
+  LocationSearchResult,
+  SearchResult,
+} from '../types/location.types';
+import { normalizeName } from './normalize';
+import { createSearchFunctions, definedOptions } from './search';
+import type { SearchScope } from './search';
+import { getTypeIndex, getNameIndex } from './search-index';
+import { findById } from './lookup';
+import { bundledDataset } from './dataset';
+import type { LocationDataset } from './dataset';
+
+/** Level a column is resolved to */
+export type BatchLevel = 'division' | 'district' | 'upazila' | 'union';
+
+/**
+ * How column values are matched
+ * - `exact`: name, Bengali name, slug or alias, after normalization
+ * - `fuzzy`: exact first, then fuzzy search with typo tolerance
+ */
+export type BatchStrategy = 'exact' | 'fuzzy';
+
+/** Outcome of a field or a row */
+export type BatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+/**
+ * Batch resolution options interface
+ */
+export interface ResolveBatchOptions {
+  /** Column of each level in the rows (default: the level name, e.g. `district`) */
+  fields?: Partial<Record<BatchLevel, string>>;
+  /** Matching strategy (default 'fuzzy') */
+  strategy?: BatchStrategy;
+  /** Minimum fuzzy score (0-1) of a match (default 0.75) */
+  minScore?: number;
+  /** Number of most common unmatched values in the summary (default 10) */
+  topUnmatched?: number;
+}
+
+type BatchLocation = Division | District | Upazila | Union;
+
+/**
+ * Location a value may refer to
+ */
+export interface BatchCandidate {
+  item: BatchLocation;
+  /** Match score (0-1); 1 for exact matches */
+  score: number;
+}
+
+/**
+ * Resolution of one field of a row
+ */
+export interface BatchFieldMatch {
+  /** Value as given */
+  value: string;
+  status: BatchStatus;
+  /** The location, when matched */
+  item?: BatchLocation;
+  /** Score (0-1) of the best candidate; 0 when unmatched */
+  score: number;
+  /** Every equally good candidate (one when matched, several when ambiguous) */
+  candidates: BatchCandidate[];
+}
+
+/**
+ * Resolution of one row
+ */
+export interface BatchRowResult<R> {
+  /** Position of the row in the input */
+  index: number;
+  row: R;
+  /** Unmatched if any given field is, else ambiguous if any field is */
+  status: BatchStatus;
+  /** Resolved levels; parents are filled in from the lowest matched level */
+  address: Partial<FullAddress>;
+  /**
+   * Confidence (0-1): the lowest score of the given fields, divided by the
+   * number of candidates for ambiguous fields; 0 when a field is unmatched
+   */
+  confidence: number;
+  /** Resolution of each given field */
+  fields: Partial<Record<BatchLevel, BatchFieldMatch>>;
+}
+
+/**
+ * A value that could not be matched, with how often it occurred
+ */
+export interface BatchUnmatchedValue {
+  level: BatchLevel;
+  value: string;
+  count: number;
+}
+
+/**
+ * Counts over all rows
+ */
+export interface BatchSummary {
+  total: number;
+  matched: number;
+  ambiguous: number;
+  unmatched: number;
+  /** Most common unmatched values, most frequent first */
+  topUnmatched: BatchUnmatchedValue[];
+}
+
+/**
+ * Result of resolveBatch
+ */
+export interface BatchResult<R> {
+  rows: BatchRowResult<R>[];
+  summary: BatchSummary;
+}
+
+const defaultBatchOptions: Required<ResolveBatchOptions> = {
+  fields: { division: 'division', district: 'district', upazila: 'upazila', union: 'union' },
+  strategy: 'fuzzy',
+  minScore: 0.75,
+  topUnmatched: 10,
+};
+
+const LEVELS: BatchLevel[] = ['division', 'district', 'upazila', 'union'];
+
+const RESULT_KEYS: Record<BatchLevel, keyof LocationSearchResult> = {
+  division: 'divisions',
+  district: 'districts',
+  upazila: 'upazilas',
+  union: 'unions',
+};
+
+const SCOPE_KEYS: Record<Exclude<BatchLevel, 'union'>, keyof SearchScope> = {
+  division: 'divisionId',
+  district: 'districtId',
+  upazila: 'upazilaId',
+};
+
+/** Fuzzy candidates this close to the best score are equally good */
+const AMBIGUITY_MARGIN = 0.02;
+
+function getById(dataset: LocationDataset, level: BatchLevel, id: number): BatchLocation | undefined {
+  return findById(getTypeIndex(dataset, level).items as BatchLocation[], id);
+}
+
+/**
+ * A location and its ancestors, by level
+ */
+function chainOf(
+  dataset: LocationDataset,
+  level: BatchLevel,
+  item: BatchLocation
+): Partial<Record<BatchLevel, BatchLocation>> {
+  const chain: Partial<Record<BatchLevel, BatchLocation>> = { [level]: item };
+  let current: BatchLocation | undefined = item;
+
+  for (let i = LEVELS.indexOf(level); i > 0 && current; i--) {
+    const parentLevel = LEVELS[i - 1] as BatchLevel;
+    const parentId: number | undefined =
+      'upazilaId' in current
+        ? current.upazilaId
+        : 'districtId' in current
+          ? current.districtId
+          : 'divisionId' in current
+            ? current.divisionId
+            : undefined;
+    current = parentId === undefined ? undefined : getById(dataset, parentLevel, parentId);
+    if (current) chain[parentLevel] = current;
+  }
+  return chain;
+}
+
+function isInScope(dataset: LocationDataset, level: BatchLevel, item: BatchLocation, scope: SearchScope): boolean {
+  const chain = chainOf(dataset, level, item);
+  return (Object.keys(SCOPE_KEYS) as (keyof typeof SCOPE_KEYS)[]).every((scopeLevel) => {
+    const id = scope[SCOPE_KEYS[scopeLevel]];
+    return id === undefined || chain[scopeLevel]?.id === id;
+  });
+}
+
+/**
+ * Resolve rows one at a time, sharing a cache of the values seen so far
+ */
+function createResolver<R>(dataset: LocationDataset, options: Required<ResolveBatchOptions>) {
+  const { search } = createSearchFunctions(dataset);
+  const fields = { ...defaultBatchOptions.fields, ...definedOptions(options.fields) };
+  const cache = new Map<string, BatchCandidate[]>();
+  const unmatchedValues = new Map<string, BatchUnmatchedValue>();
+  const rows: BatchRowResult<R>[] = [];
+  const counts = { matched: 0, ambiguous: 0, unmatched: 0 };
+
+  const findCandidates = (level: BatchLevel, key: string, scope: SearchScope): BatchCandidate[] => {
+    const cacheKey = `${level}|${scope.divisionId ?? ''}|${scope.districtId ?? ''}|${scope.upazilaId ?? ''}|${key}`;
+    const cached = cache.get(cacheKey);
+    if (cached) return [...cached];
+
+    const { items } = getTypeIndex(dataset, level);
+    let candidates: BatchCandidate[] = (getNameIndex(dataset, level).get(key) ?? [])
+      .map((position) => items[position] as BatchLocation)
+      .filter((item) => isInScope(dataset, level, item, scope))
+      .map((item) => ({ item, score: 1 }));
+
+    if (candidates.length === 0 && options.strategy === 'fuzzy') {
+      const results = search(key, {
+        types: [level],
+        within: scope,
+        threshold: options.minScore,
+        scoring: 'damerau',
+        limit: 10,
+      })[RESULT_KEYS[level]] as SearchResult<BatchLocation>[];
+      const best = results[0]?.score ?? 0;
+      candidates = results
+        .filter((r) => r.score >= best - AMBIGUITY_MARGIN)
+        .map((r) => ({ item: r.item, score: r.score }));
+    }
+
+    cache.set(cacheKey, candidates);
+    return [...candidates];
+  };
+
+  // Keep only candidates that fit the candidates of every other given level
+  const prune = (candidates: Partial<Record<BatchLevel, BatchCandidate[]>>) => {
+    const given = LEVELS.filter((level) => candidates[level] !== undefined);
+    for (let pass = 0; pass < 2; pass++) {
+      for (const [i, upper] of given.entries()) {
+        for (const lower of given.slice(i + 1)) {
+          const parents = candidates[upper] as BatchCandidate[];
+          if (parents.length === 0) continue;
+          const parentIds = new Set(parents.map((c) => c.item.id));
+          const children = (candidates[lower] as BatchCandidate[]).filter((c) =>
+            parentIds.has(chainOf(dataset, lower, c.item)[upper]?.id as number)
+          );
+          candidates[lower] = children;
+          if (children.length === 0) continue;
+
+          const childParents = new Set(children.map((c) => chainOf(dataset, lower, c.item)[upper]?.id));
+          candidates[upper] = parents.filter((c) => childParents.has(c.item.id));
+        }
+      }
+    }
+  };
+
+  const add = (row: R) => {
+    const record = row as Record<string, unknown>;
+    const values: Partial<Record<BatchLevel, string>> = {};
+    for (const level of LEVELS) {
+      const column = fields[level];
+      const value = column !== undefined ? record[column] : undefined;
+      if (value !== undefined && value !== null && String(value).trim() !== '') values[level] = String(value);
+    }
+
+    // Top down, each level searched within the lowest unique level above it
+    const candidates: Partial<Record<BatchLevel, BatchCandidate[]>> = {};
+    for (const level of LEVELS) {
+      const value = values[level];
+      if (value === undefined) continue;
+
+      const scope: SearchScope = {};
+      const parent = LEVELS.slice(0, LEVELS.indexOf(level))
+        .reverse()
+        .find((upper) => candidates[upper]?.length === 1);
+      if (parent && parent !== 'union') {
+        scope[SCOPE_KEYS[parent]] = (candidates[parent] as BatchCandidate[])[0]?.item.id;
+      }
+
+      candidates[level] = findCandidates(level, normalizeName(value), scope);
+      prune(candidates);
+    }
+
+    const result: BatchRowResult<R> = {
+      index: rows.length,
+      row,
+      status: 'unmatched',
+      address: {},
+      confidence: 0,
+      fields: {},
+    };
+
+    let lowest: BatchLevel | undefined;
+    let confidence = 1;
+    for (const level of LEVELS) {
+      const value = values[level];
+      const found = candidates[level];
+      if (value === undefined || !found) continue;
+
+      const status: BatchStatus = found.length === 0 ? 'unmatched' : found.length === 1 ? 'matched' : 'ambiguous';
+      const score = Math.max(0, ...found.map((c) => c.score));
+      result.fields[level] = {
+        value,
+        status,
+        ...(status === 'matched' && { item: found[0]?.item }),
+        score,
+        candidates: found,
+      };
+      confidence = Math.min(confidence, found.length === 0 ? 0 : score / found.length);
+      if (status === 'matched') lowest = level;
+
+      if (status === 'unmatched') {
+        const key = `${level}|${normalizeName(value)}`;
+        const entry = unmatchedValues.get(key);
+        if (entry) entry.count++;
+        else unmatchedValues.set(key, { level, value, count: 1 });
+      }
+    }
+
+    const statuses = Object.values(result.fields).map((field) => field.status);
+    if (statuses.length > 0) {
+      result.status = statuses.includes('unmatched')
+        ? 'unmatched'
+        : statuses.includes('ambiguous')
+          ? 'ambiguous'
+          : 'matched';
+      result.confidence = confidence;
+    }
+    if (lowest) {
+      const item = (result.fields[lowest] as BatchFieldMatch).item as BatchLocation;
+      result.address = chainOf(dataset, lowest, item) as Partial<FullAddress>;
+    }
+
+    counts[result.status]++;
+    rows.push(result);
+  };
+
+  const finish = (): BatchResult<R> => ({
+    rows,
+    summary: {
+      total: rows.length,
+      ...counts,
+      topUnmatched: [...unmatchedValues.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, options.topUnmatched),
+    },
+  });
+
+  return { add, finish };
+}
+
+/**
+ * Build the batch functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createBatchFunctions(dataset: LocationDataset) {
+  function resolveBatch<R extends object>(rows: Iterable<R>, options?: ResolveBatchOptions): BatchResult<R>;
+  function resolveBatch<R extends object>(
+    rows: AsyncIterable<R>,
+    options?: ResolveBatchOptions
+  ): Promise<BatchResult<R>>;
+  function resolveBatch<R extends object>(
+    rows: Iterable<R> | AsyncIterable<R>,
+    options?: ResolveBatchOptions
+  ): BatchResult<R> | Promise<BatchResult<R>> {
+    const resolver = createResolver<R>(dataset, { ...defaultBatchOptions, ...definedOptions(options) });
+
+    if (Symbol.asyncIterator in rows) {
+      return (async () => {
+        for await (const row of rows) resolver.add(row);
+        return resolver.finish();
+      })();
+    }
+
+    for (const row of rows) resolver.add(row);
+    return resolver.finish();
+  }
+
+  return { resolveBatch };
+}
+
+const bundled = createBatchFunctions(bundledDataset);
+
+/**
+ * Resolve the free-text location columns of many rows, e.g. for a data
+ * import. Each level is matched within the level above once that is
+ * unique, and candidates that don't fit the other columns are dropped, so
+ * "Kaliganj" with district "Gazipur" is matched while "Kaliganj" alone is
+ * ambiguous. The search index is built once and repeated values are
+ * looked up once.
+ * @param rows - Rows (objects) with location columns; an async iterable
+ * (e.g. a CSV stream) is read row by row
+ * @param options - Columns, strategy, minimum fuzzy score
+ * @returns Per-row matches and a summary (a Promise for async iterables)
+ */
+export function resolveBatch<R extends object>(rows: Iterable<R>, options?: ResolveBatchOptions): BatchResult<R>;
+export function resolveBatch<R extends object>(
+  rows: AsyncIterable<R>,
+  options?: ResolveBatchOptions
+): Promise<BatchResult<R>>;
+export function resolveBatch<R extends object>(
+  rows: Iterable<R> | AsyncIterable<R>,
+  options?: ResolveBatchOptions
+): BatchResult<R> | Promise<BatchResult<R>> {
+  return Symbol.asyncIterator in rows
+    ? bundled.resolveBatch(rows as AsyncIterable<R>, options)
+    : bundled.resolveBatch(rows as Iterable<R>, options);
+}
+
+export default {
+  resolveBatch,
+};
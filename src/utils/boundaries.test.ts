@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  createBoundaryFunctions,
+  getContainingLocations,
+  isWithinBoundary,
+  registerBoundaries,
+  reverseGeocode,
+} from './boundaries';
+import type { BoundaryCollection, BoundaryType, Position } from './boundaries';
+import { createAddressBook } from './address-book';
+
+/** Square boundary around a point */
+function square(
+  type: BoundaryType,
+  id: number,
+  [lng, lat]: Position,
+  size: number
+): BoundaryCollection['features'][number] {
+  const ring: Position[] = [
+    [lng - size, lat - size],
+    [lng + size, lat - size],
+    [lng + size, lat + size],
+    [lng - size, lat + size],
+    [lng - size, lat - size],
+  ];
+  return { type: 'Feature', properties: { type, id }, geometry: { type: 'Polygon', coordinates: [ring] } };
+}
+
+// Savar upazila (151) inside Dhaka district (18)
+const collection: BoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [square('district', 18, [90.4, 23.8], 0.3), square('upazila', 151, [90.26, 23.85], 0.1)],
+};
+
+describe('createBoundaryFunctions', () => {
+  test('knows only the boundaries registered with it', () => {
+    const geo = createBoundaryFunctions({});
+
+    expect(geo.reverseGeocode(23.85, 90.26)).toBeUndefined();
+    geo.registerBoundaries(collection);
+
+    expect(geo.reverseGeocode(23.85, 90.26)?.upazila.id).toBe(151);
+    expect(geo.getContainingLocations(23.6, 90.5)).toEqual({
+      district: expect.objectContaining({ id: 18 }),
+      division: expect.objectContaining({ slug: 'dhaka' }),
+    });
+    expect(geo.isWithinBoundary('upazila', 151, { latitude: 23.6, longitude: 90.5 })).toBe(false);
+    expect(reverseGeocode(23.85, 90.26)).toBeUndefined();
+  });
+
+  test("resolves ids against an address book's data", () => {
+    const book = createAddressBook({ extend: { upazilas: [{ id: 151, name: 'Savar Upazila' }] } });
+    const geo = createBoundaryFunctions({
+      division: book.getRawDivisions(),
+      district: book.getRawDistricts(),
+      upazila: book.getRawUpazilas(),
+    });
+    geo.registerBoundaries(collection);
+
+    expect(geo.reverseGeocode(23.85, 90.26)?.upazila.name).toBe('Savar Upazila');
+  });
+});
+
+describe('top-level boundary functions', () => {
+  test('use the boundaries registered with registerBoundaries', () => {
+    expect(isWithinBoundary('district', 18, { latitude: 23.8, longitude: 90.4 })).toBeUndefined();
+    registerBoundaries(collection);
+
+    expect(isWithinBoundary('district', 18, { latitude: 23.8, longitude: 90.4 })).toBe(true);
+    expect(reverseGeocode(23.85, 90.26)?.upazila.name).toBe('Savar');
+    expect(getContainingLocations(10, 10)).toEqual({});
+  });
+});
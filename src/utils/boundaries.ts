@@ -0,0 +1,246 @@
+/**
+ * Administrative boundary utilities for Bangladesh address data
+ * Point-in-polygon reverse geocoding over GeoJSON boundaries of divisions,
+ * districts and upazilas. No boundaries are bundled: register your own
+ * with registerBoundaries(); each set of boundary functions has its own
+ */
+
+import type { FullAddress, Coordinates } from '../types/location.types';
+import { createDivisionFunctions } from './divisions';
+import { createDistrictFunctions } from './districts';
+import { createUpazilaFunctions } from './upazilas';
+import { bundledDataset } from './dataset';
+import type { LocationDataset } from './dataset';
+
+/** Location types that have boundary polygons */
+export type BoundaryType = 'division' | 'district' | 'upazila';
+
+/** GeoJSON position: [longitude, latitude] */
+export type Position = [number, number];
+
+/**
+ * Polygon or MultiPolygon geometry (GeoJSON); the first ring of each
+ * polygon is the outer boundary, any further rings are holes
+ */
+export type BoundaryGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+/**
+ * Boundary of one location, as a GeoJSON feature
+ */
+export interface BoundaryFeature {
+  type: 'Feature';
+  properties: {
+    type: BoundaryType;
+    /** Division, district or upazila id */
+    id: number;
+  };
+  geometry: BoundaryGeometry;
+}
+
+/**
+ * Set of boundaries, as a GeoJSON feature collection
+ */
+export interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+interface IndexedBoundary {
+  id: number;
+  polygons: Position[][][];
+  /** [minLng, minLat, maxLng, maxLat] */
+  bbox: [number, number, number, number];
+}
+
+/** Registered boundaries, by type and id */
+type BoundaryRegistry = Record<BoundaryType, Map<number, IndexedBoundary>>;
+
+function toIndexedBoundary(feature: BoundaryFeature): IndexedBoundary {
+  const polygons =
+    feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.coordinates;
+
+  const bbox: IndexedBoundary['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygons) {
+    for (const [lng, lat] of polygon[0] ?? []) {
+      bbox[0] = Math.min(bbox[0], lng);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lng);
+      bbox[3] = Math.max(bbox[3], lat);
+    }
+  }
+
+  return { id: feature.properties.id, polygons, bbox };
+}
+
+/**
+ * Even-odd ray casting test for a single ring
+ */
+function isInRing(lng: number, lat: number, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as Position;
+    const [xj, yj] = ring[j] as Position;
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function containsPoint(boundary: IndexedBoundary, lng: number, lat: number): boolean {
+  const [minLng, minLat, maxLng, maxLat] = boundary.bbox;
+  if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) return false;
+
+  return boundary.polygons.some(
+    ([outer, ...holes]) =>
+      outer !== undefined &&
+      isInRing(lng, lat, outer) &&
+      !holes.some((hole) => isInRing(lng, lat, hole))
+  );
+}
+
+/**
+ * Find the boundary of a type containing a point, optionally among given ids
+ */
+function findContaining(
+  boundaries: BoundaryRegistry,
+  type: BoundaryType,
+  lng: number,
+  lat: number,
+  ids?: number[]
+): number | undefined {
+  const byId = boundaries[type];
+  const candidates = ids
+    ? ids.map((id) => byId.get(id)).filter((b): b is IndexedBoundary => b !== undefined)
+    : byId.values();
+
+  for (const boundary of candidates) {
+    if (containsPoint(boundary, lng, lat)) return boundary.id;
+  }
+  return undefined;
+}
+
+/**
+ * Build the boundary functions over a dataset, with a registry of their own
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createBoundaryFunctions(dataset: LocationDataset) {
+  const { getDivisionById } = createDivisionFunctions(dataset);
+  const { getDistrictById } = createDistrictFunctions(dataset);
+  const { getUpazilaById } = createUpazilaFunctions(dataset);
+  const boundaries: BoundaryRegistry = {
+    division: new Map(),
+    district: new Map(),
+    upazila: new Map(),
+  };
+
+  const getContainingLocations = (latitude: number, longitude: number): Partial<FullAddress> => {
+    const components: Partial<FullAddress> = {};
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return components;
+
+    const upazilaId = findContaining(boundaries, 'upazila', longitude, latitude);
+    const upazila = upazilaId !== undefined ? getUpazilaById(upazilaId) : undefined;
+    if (upazila) {
+      // Parents follow from the hierarchy, not from (possibly overlapping) simplified polygons
+      components.upazila = upazila;
+      components.district = getDistrictById(upazila.districtId);
+      components.division = components.district
+        ? getDivisionById(components.district.divisionId)
+        : undefined;
+      return components;
+    }
+
+    const districtId = findContaining(boundaries, 'district', longitude, latitude);
+    const district = districtId !== undefined ? getDistrictById(districtId) : undefined;
+    if (district) {
+      components.district = district;
+      components.division = getDivisionById(district.divisionId);
+      return components;
+    }
+
+    const divisionId = findContaining(boundaries, 'division', longitude, latitude);
+    const division = divisionId !== undefined ? getDivisionById(divisionId) : undefined;
+    if (division) components.division = division;
+    return components;
+  };
+
+  return {
+    registerBoundaries: (collection: BoundaryCollection): void => {
+      for (const feature of collection.features) {
+        boundaries[feature.properties.type].set(feature.properties.id, toIndexedBoundary(feature));
+      }
+    },
+    getContainingLocations,
+    reverseGeocode: (latitude: number, longitude: number): FullAddress | undefined => {
+      const { division, district, upazila } = getContainingLocations(latitude, longitude);
+      if (!division || !district || !upazila) return undefined;
+      return { division, district, upazila };
+    },
+    isWithinBoundary: (type: BoundaryType, id: number, point: Coordinates): boolean | undefined => {
+      const boundary = boundaries[type].get(id);
+      if (!boundary) return undefined;
+      return containsPoint(boundary, point.longitude, point.latitude);
+    },
+  };
+}
+
+const bundled = createBoundaryFunctions(bundledDataset);
+
+/**
+ * Add (or replace) boundary polygons of the top-level functions; the other
+ * functions only know the boundaries registered here (boundary functions
+ * from createBoundaryFunctions have their own)
+ * @param collection - GeoJSON feature collection of division, district and upazila boundaries
+ */
+export function registerBoundaries(collection: BoundaryCollection): void {
+  bundled.registerBoundaries(collection);
+}
+
+/**
+ * Find every administrative level whose boundary contains a point
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @returns The levels found; levels without a containing registered boundary are left out
+ */
+export function getContainingLocations(
+  latitude: number,
+  longitude: number
+): Partial<FullAddress> {
+  return bundled.getContainingLocations(latitude, longitude);
+}
+
+/**
+ * Reverse geocode a point to the upazila whose boundary contains it
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @returns FullAddress or undefined (outside every registered upazila boundary)
+ */
+export function reverseGeocode(latitude: number, longitude: number): FullAddress | undefined {
+  return bundled.reverseGeocode(latitude, longitude);
+}
+
+/**
+ * Check whether a point lies inside a location's boundary
+ * @param type - Location type
+ * @param id - Division, district or upazila id
+ * @param point - Coordinates to test
+ * @returns true/false, or undefined when no boundary is registered for the location
+ */
+export function isWithinBoundary(
+  type: BoundaryType,
+  id: number,
+  point: Coordinates
+): boolean | undefined {
+  return bundled.isWithinBoundary(type, id, point);
+}
+
+export default {
+  registerBoundaries,
+  getContainingLocations,
+  reverseGeocode,
+  isWithinBoundary,
+};
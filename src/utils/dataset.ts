@@ -0,0 +1,23 @@
+/**
+ * Datasets for address books
+ * Module functions are built by factories that take a dataset: the
+ * exported functions use the bundled data, an address book passes its own
+ */
+
+import type { AnyLocation, LocationType } from '../types/location.types';
+
+/** Datasets by location type; missing types use the bundled data */
+export type LocationDataset = Partial<Record<LocationType, readonly AnyLocation[]>>;
+
+/** Dataset of the exported module functions: the bundled data of every type */
+export const bundledDataset: LocationDataset = Object.freeze({});
+
+/**
+ * Locations of a type in a dataset
+ * @param dataset - Datasets by location type
+ * @param type - Location type
+ * @param bundled - The bundled locations, used when the dataset has none of this type
+ */
+export function dataOf<T extends AnyLocation>(dataset: LocationDataset, type: LocationType, bundled: T[]): T[] {
+  return (dataset[type] as T[] | undefined) ?? bundled;
+}
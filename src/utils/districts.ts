@@ -0,0 +1,199 @@
+/**
+ * District functions for Bangladesh address data
+ * The 64 districts and their divisions
+ */
+
+import type { Division, District, LocationOption } from '../types/location.types';
+import { findById, findByName, findBySlug, filterBy } from './lookup';
+import { createDivisionFunctions } from './divisions';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+import districtsJson from '../data/districts.json';
+
+const districtsData = freezeData(districtsJson as District[]);
+
+/**
+ * Build the district functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createDistrictFunctions(dataset: LocationDataset) {
+  const districts = dataOf(dataset, 'district', districtsData);
+  const { getDivisionById, getDivisionBySlug } = createDivisionFunctions(dataset);
+
+  const getDistrictById = (id: number): Readonly<District> | undefined => findById(districts, id);
+  const getDistrictsByDivision = (divisionId: number): Readonly<District>[] =>
+    filterBy(districts, 'divisionId', divisionId);
+
+  return {
+    getAllDistricts: (): Readonly<District>[] => [...districts],
+    getDistrictById,
+    getDistrictBySlug: (slug: string): Readonly<District> | undefined => findBySlug(districts, slug),
+    getDistrictByName: (name: string): Readonly<District> | undefined => findByName(districts, name),
+    getDistrictsByDivision,
+    getDistrictsByDivisionSlug: (divisionSlug: string): Readonly<District>[] => {
+      const division = getDivisionBySlug(divisionSlug);
+      if (!division) return [];
+      return getDistrictsByDivision(division.id);
+    },
+    getDivisionOfDistrict: (districtId: number): Readonly<Division> | undefined => {
+      const district = getDistrictById(districtId);
+      if (!district) return undefined;
+      return getDivisionById(district.divisionId);
+    },
+    isValidDistrict: (id: number): boolean => getDistrictById(id) !== undefined,
+    isDistrictInDivision: (districtId: number, divisionId: number): boolean => {
+      const district = getDistrictById(districtId);
+      return district !== undefined && district.divisionId === divisionId;
+    },
+    getDistrictCount: (divisionId: number): number => getDistrictsByDivision(divisionId).length,
+    getDistrictNames: (language: 'en' | 'bn' = 'en'): string[] =>
+      districts.map((d) => (language === 'bn' ? d.bnName : d.name)),
+    getDistrictOptions: (divisionId?: number): LocationOption[] => {
+      const data = divisionId
+        ? getDistrictsByDivision(divisionId)
+        : districts;
+      return data.map((d) => ({
+        value: d.slug,
+        label: d.name,
+        labelBn: d.bnName,
+        ...(d.meta !== undefined && { meta: d.meta }),
+      }));
+    },
+    getRawDistricts: (): ReadonlyArray<Readonly<District>> => districts,
+  };
+}
+
+const bundled = createDistrictFunctions(bundledDataset);
+
+/**
+ * Get all districts
+ * @returns Array of all 64 districts of Bangladesh
+ */
+export function getAllDistricts(): Readonly<District>[] {
+  return bundled.getAllDistricts();
+}
+
+/**
+ * Get a district by ID
+ * @param id - District ID (1-64)
+ * @returns District or undefined
+ */
+export function getDistrictById(id: number): Readonly<District> | undefined {
+  return bundled.getDistrictById(id);
+}
+
+/**
+ * Get a district by slug
+ * @param slug - District slug (e.g., 'dhaka', 'sylhet')
+ * @returns District or undefined
+ */
+export function getDistrictBySlug(slug: string): Readonly<District> | undefined {
+  return bundled.getDistrictBySlug(slug);
+}
+
+/**
+ * Get a district by name (English or Bengali), including former names
+ * @param name - District name or alias (e.g., 'Comilla')
+ * @returns District or undefined
+ */
+export function getDistrictByName(name: string): Readonly<District> | undefined {
+  return bundled.getDistrictByName(name);
+}
+
+/**
+ * Get all districts in a division
+ * @param divisionId - Division ID
+ * @returns Array of districts
+ */
+export function getDistrictsByDivision(divisionId: number): Readonly<District>[] {
+  return bundled.getDistrictsByDivision(divisionId);
+}
+
+/**
+ * Get all districts in a division by division slug
+ * @param divisionSlug - Division slug (e.g., 'dhaka')
+ * @returns Array of districts
+ */
+export function getDistrictsByDivisionSlug(divisionSlug: string): Readonly<District>[] {
+  return bundled.getDistrictsByDivisionSlug(divisionSlug);
+}
+
+/**
+ * Get the parent division of a district
+ * @param districtId - District ID
+ * @returns Division or undefined
+ */
+export function getDivisionOfDistrict(districtId: number): Readonly<Division> | undefined {
+  return bundled.getDivisionOfDistrict(districtId);
+}
+
+/**
+ * Check if a district ID is valid
+ * @param id - District ID to check
+ * @returns boolean
+ */
+export function isValidDistrict(id: number): boolean {
+  return bundled.isValidDistrict(id);
+}
+
+/**
+ * Check if a district belongs to a division
+ * @param districtId - District ID
+ * @param divisionId - Division ID
+ * @returns boolean
+ */
+export function isDistrictInDivision(districtId: number, divisionId: number): boolean {
+  return bundled.isDistrictInDivision(districtId, divisionId);
+}
+
+/**
+ * Get district count for a division
+ * @param divisionId - Division ID
+ * @returns Number of districts
+ */
+export function getDistrictCount(divisionId: number): number {
+  return bundled.getDistrictCount(divisionId);
+}
+
+/**
+ * Get list of district names
+ * @param language - 'en' for English, 'bn' for Bengali
+ * @returns Array of district names
+ */
+export function getDistrictNames(language: 'en' | 'bn' = 'en'): string[] {
+  return bundled.getDistrictNames(language);
+}
+
+/**
+ * Get dropdown options for districts
+ * @param divisionId - Optional division ID to filter by
+ * @returns Array of { value, label, labelBn, meta? } objects
+ */
+export function getDistrictOptions(
+  divisionId?: number
+): LocationOption[] {
+  return bundled.getDistrictOptions(divisionId);
+}
+
+/** Get raw districts data */
+export function getRawDistricts(): ReadonlyArray<Readonly<District>> {
+  return bundled.getRawDistricts();
+}
+
+export default {
+  getAllDistricts,
+  getDistrictById,
+  getDistrictBySlug,
+  getDistrictByName,
+  getDistrictsByDivision,
+  getDistrictsByDivisionSlug,
+  getDivisionOfDistrict,
+  isValidDistrict,
+  isDistrictInDivision,
+  getDistrictCount,
+  getDistrictNames,
+  getDistrictOptions,
+  getRawDistricts,
+};
@@ -0,0 +1,121 @@
+/**
+ * Division functions for Bangladesh address data
+ * The 8 divisions, looked up by id, slug or name
+ */
+
+import type { Division, LocationOption } from '../types/location.types';
+import { findById, findByName, findBySlug } from './lookup';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+import divisionsJson from '../data/divisions.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+
+/**
+ * Build the division functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createDivisionFunctions(dataset: LocationDataset) {
+  const divisions = dataOf(dataset, 'division', divisionsData);
+
+  const getDivisionById = (id: number): Readonly<Division> | undefined => findById(divisions, id);
+
+  return {
+    getAllDivisions: (): Readonly<Division>[] => [...divisions],
+    getDivisionById,
+    getDivisionBySlug: (slug: string): Readonly<Division> | undefined => findBySlug(divisions, slug),
+    getDivisionByName: (name: string): Readonly<Division> | undefined => findByName(divisions, name),
+    isValidDivision: (id: number): boolean => getDivisionById(id) !== undefined,
+    getDivisionNames: (language: 'en' | 'bn' = 'en'): string[] =>
+      divisions.map((d) => (language === 'bn' ? d.bnName : d.name)),
+    getDivisionOptions: (): LocationOption[] =>
+      divisions.map((d) => ({
+        value: d.slug,
+        label: d.name,
+        labelBn: d.bnName,
+        ...(d.meta !== undefined && { meta: d.meta }),
+      })),
+    getRawDivisions: (): ReadonlyArray<Readonly<Division>> => divisions,
+  };
+}
+
+const bundled = createDivisionFunctions(bundledDataset);
+
+/**
+ * Get all divisions
+ * @returns Array of all 8 divisions of Bangladesh
+ */
+export function getAllDivisions(): Readonly<Division>[] {
+  return bundled.getAllDivisions();
+}
+
+/**
+ * Get a division by ID
+ * @param id - Division ID (1-8)
+ * @returns Division or undefined
+ */
+export function getDivisionById(id: number): Readonly<Division> | undefined {
+  return bundled.getDivisionById(id);
+}
+
+/**
+ * Get a division by slug
+ * @param slug - Division slug (e.g., 'dhaka', 'chattogram')
+ * @returns Division or undefined
+ */
+export function getDivisionBySlug(slug: string): Readonly<Division> | undefined {
+  return bundled.getDivisionBySlug(slug);
+}
+
+/**
+ * Get a division by name (English or Bengali), including former names
+ * @param name - Division name or alias (e.g., 'Chittagong')
+ * @returns Division or undefined
+ */
+export function getDivisionByName(name: string): Readonly<Division> | undefined {
+  return bundled.getDivisionByName(name);
+}
+
+/**
+ * Check if a division ID is valid
+ * @param id - Division ID to check
+ * @returns boolean
+ */
+export function isValidDivision(id: number): boolean {
+  return bundled.isValidDivision(id);
+}
+
+/**
+ * Get list of division names
+ * @param language - 'en' for English, 'bn' for Bengali
+ * @returns Array of division names
+ */
+export function getDivisionNames(language: 'en' | 'bn' = 'en'): string[] {
+  return bundled.getDivisionNames(language);
+}
+
+/**
+ * Get dropdown options for divisions
+ * @returns Array of { value, label, labelBn, meta? } objects
+ */
+export function getDivisionOptions(): LocationOption[] {
+  return bundled.getDivisionOptions();
+}
+
+/** Get raw divisions data */
+export function getRawDivisions(): ReadonlyArray<Readonly<Division>> {
+  return bundled.getRawDivisions();
+}
+
+export default {
+  getAllDivisions,
+  getDivisionById,
+  getDivisionBySlug,
+  getDivisionByName,
+  isValidDivision,
+  getDivisionNames,
+  getDivisionOptions,
+  getRawDivisions,
+};
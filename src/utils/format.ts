@@ -0,0 +1,204 @@
+/**
+ * Address formatting for Bangladesh address data
+ * Renders a FullAddress plus free-text details (house, village, post office,
+ * postal code) with named styles or custom templates
+ */
+
+import type { FullAddress } from '../types/location.types';
+import { toBengaliDigits } from './normalize';
+
+/** Built-in address layouts */
+export type AddressStyle = 'singleLine' | 'multiLine' | 'postal' | 'form';
+
+/**
+ * Free-text parts of an address that are not in the dataset
+ */
+export interface AddressDetails {
+  /** House, road or holding */
+  house?: string;
+  /** Village or area */
+  village?: string;
+  /** Post office name */
+  postOffice?: string;
+  /** 4-digit postal code */
+  postalCode?: string;
+}
+
+/**
+ * Template formatting options interface
+ */
+export interface FormatTemplateOptions {
+  /** Built-in layout (default 'singleLine'); ignored when `template` is given */
+  style?: AddressStyle;
+  /** Custom template, see formatAddressTemplate */
+  template?: string;
+  /** Language of names and labels (default 'en') */
+  language?: 'en' | 'bn';
+  /** Free-text parts of the address */
+  details?: AddressDetails;
+  /** Joins the lines of multi-line layouts (default '\n') */
+  lineSeparator?: string;
+}
+
+const defaultFormatTemplateOptions: Required<Omit<FormatTemplateOptions, 'template'>> = {
+  style: 'singleLine',
+  language: 'en',
+  details: {},
+  lineSeparator: '\n',
+};
+
+// `[...]` sections are dropped when a placeholder in them is empty
+const templates: Record<AddressStyle, Record<'en' | 'bn', string>> = {
+  // SMS, search results and one-line fields
+  singleLine: {
+    en: '[{house}, ][{village}, ][{union}, ]{upazila}, {district}[ - {postalCode}]',
+    bn: '[{house}, ][{village}, ][{union}, ]{upazila}, {district}[ - {postalCode}]',
+  },
+  // Shipping labels
+  multiLine: {
+    en: '[{house}]\n[{village}, ][{union}]\n{upazila}, {district}[ - {postalCode}]\n{division}',
+    bn: '[{house}]\n[{village}, ][{union}]\n{upazila}, {district}[ - {postalCode}]\n{division}',
+  },
+  // Bangladesh Post envelope order: post office above upazila, district with postal code last
+  postal: {
+    en: '[{house}]\n[{village}]\n[P.O.: {postOffice}]\n{upazila}\n{district}[ - {postalCode}]',
+    bn: '[{house}]\n[{village}]\n[ডাকঘর: {postOffice}]\n{upazila}\n{district}[ - {postalCode}]',
+  },
+  // Government forms
+  form: {
+    en: '[Village: {village}, ][Union: {union}, ][Post Office: {postOffice}, ]Upazila: {upazila}, District: {district}[, Postal Code: {postalCode}]',
+    bn: '[গ্রাম: {village}, ][ইউনিয়ন: {union}, ][ডাকঘর: {postOffice}, ]উপজেলা: {upazila}, জেলা: {district}[, পোস্ট কোড: {postalCode}]',
+  },
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const SECTION = /\[([^[\]]*)\]/g;
+// A section or a placeholder outside sections, so each is filled exactly once
+const SECTION_OR_PLACEHOLDER = new RegExp(`${SECTION.source}|${PLACEHOLDER.source}`, 'g');
+// Whitespace and commas left at either end of a line by empty sections
+const EDGE_SEPARATORS = /^[\s,]+|[\s,]+$/g;
+
+/**
+ * Format a full address as a string
+ * @param address - FullAddress object
+ * @param options - Formatting options
+ * @returns Formatted address string
+ */
+export function formatAddress(
+  address: FullAddress,
+  options?: {
+    language?: 'en' | 'bn';
+    separator?: string;
+    includeUnion?: boolean;
+    includeUpazila?: boolean;
+    includeDistrict?: boolean;
+    includeDivision?: boolean;
+  }
+): string {
+  const {
+    language = 'en',
+    separator = ', ',
+    includeUnion = true,
+    includeUpazila = true,
+    includeDistrict = true,
+    includeDivision = true,
+  } = options || {};
+
+  const getName = (item: { name: string; bnName: string }) =>
+    language === 'bn' ? item.bnName : item.name;
+
+  const parts: string[] = [];
+
+  if (includeUnion && address.union) parts.push(getName(address.union));
+  if (includeUpazila) parts.push(getName(address.upazila));
+  if (includeDistrict) parts.push(getName(address.district));
+  if (includeDivision) parts.push(getName(address.division));
+
+  return parts.join(separator);
+}
+
+/**
+ * Format address for display with Bengali names
+ * @param address - FullAddress object
+ * @returns Formatted Bengali address string
+ */
+export function formatAddressBengali(address: FullAddress): string {
+  return formatAddress(address, { language: 'bn' });
+}
+
+/**
+ * Format address for display with English names
+ * @param address - FullAddress object
+ * @returns Formatted English address string
+ */
+export function formatAddressEnglish(address: FullAddress): string {
+  return formatAddress(address, { language: 'en' });
+}
+
+/**
+ * Get the template of a built-in style
+ * @param style - Address style
+ * @param language - 'en' or 'bn'
+ * @returns Template string
+ */
+export function getAddressTemplate(style: AddressStyle, language: 'en' | 'bn' = 'en'): string {
+  return templates[style][language];
+}
+
+/**
+ * Format an address with a named style or a custom template.
+ *
+ * Templates use the placeholders {house}, {village}, {union}, {postOffice},
+ * {postalCode}, {upazila}, {district} and {division}. A section in square
+ * brackets is left out when any placeholder in it is empty; commas left at
+ * the ends of a line and empty lines are dropped. In Bengali the postal
+ * code is written in Bengali digits.
+ * @param address - FullAddress object (union included when present)
+ * @param options - Style or template, language, free-text details
+ * @returns Formatted address
+ */
+export function formatAddressTemplate(
+  address: FullAddress,
+  options?: FormatTemplateOptions
+): string {
+  const opts = { ...defaultFormatTemplateOptions, ...options };
+  const { language, details } = opts;
+  const template = opts.template ?? getAddressTemplate(opts.style, language);
+
+  const getName = (item: { name: string; bnName: string } | undefined) =>
+    item ? (language === 'bn' ? item.bnName : item.name) : '';
+  const postalCode = details.postalCode?.trim() ?? '';
+
+  const values: Record<string, string> = {
+    house: details.house?.trim() ?? '',
+    village: details.village?.trim() ?? '',
+    postOffice: details.postOffice?.trim() ?? '',
+    postalCode: language === 'bn' ? toBengaliDigits(postalCode) : postalCode,
+    union: getName(address.union),
+    upazila: getName(address.upazila),
+    district: getName(address.district),
+    division: getName(address.division),
+  };
+
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, key: string) => values[key] ?? '');
+
+  // Filled in one pass: text from the details is never read as a placeholder
+  return template
+    .replace(SECTION_OR_PLACEHOLDER, (_, section: string | undefined, key: string | undefined) => {
+      if (section === undefined) return values[key as string] ?? '';
+      const keys = Array.from(section.matchAll(PLACEHOLDER), (match) => match[1] as string);
+      return keys.every((k) => values[k]) ? fill(section) : '';
+    })
+    .split('\n')
+    .map((line) => line.replace(EDGE_SEPARATORS, ''))
+    .filter((line) => line !== '')
+    .join(opts.lineSeparator);
+}
+
+export default {
+  formatAddress,
+  formatAddressBengali,
+  formatAddressEnglish,
+  getAddressTemplate,
+  formatAddressTemplate,
+};
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import type { District, LocationAlias } from '../types/location.types';
+import { getAllDistricts, getDistrictById, getDistrictsByDivision } from './districts';
+import { freezeData } from './freeze';
+
+describe('freezeData', () => {
+  test('freezes the array, its items and nested arrays', () => {
+    const data = freezeData([{ id: 1, aliases: [{ name: 'A' }] }]);
+
+    expect(Object.isFrozen(data)).toBe(true);
+    expect(Object.isFrozen(data[0])).toBe(true);
+    expect(Object.isFrozen(data[0]?.aliases)).toBe(true);
+  });
+});
+
+describe('bundled datasets', () => {
+  test('sorting a returned array leaves the dataset unchanged', () => {
+    const districts = getAllDistricts();
+    districts.sort((a, b) => b.id - a.id);
+
+    expect(districts[0]?.id).toBe(64);
+    expect(getAllDistricts()[0]?.id).toBe(1);
+    expect(getDistrictById(1)?.name).toBe('Barguna');
+  });
+
+  test('splicing a returned array leaves the dataset unchanged', () => {
+    const count = getDistrictsByDivision(5).length;
+    getDistrictsByDivision(5).splice(0);
+
+    expect(getDistrictsByDivision(5)).toHaveLength(count);
+    expect(getDistrictById(1)?.divisionId).toBe(5);
+  });
+
+  test('renaming a returned location throws', () => {
+    const district = getDistrictById(1) as District;
+
+    expect(() => {
+      district.name = 'Renamed';
+    }).toThrow(TypeError);
+    expect(getDistrictById(1)?.name).toBe('Barguna');
+  });
+
+  test('pushing to aliases throws', () => {
+    const aliases = getDistrictById(2)?.aliases as LocationAlias[];
+
+    expect(() => aliases.push({ name: 'Bakerganj', type: 'former' })).toThrow(TypeError);
+    expect(getDistrictById(2)?.aliases).toHaveLength(1);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Freezing of the bundled datasets
+ * Each dataset is deep-frozen where it is imported, so a consumer that
+ * sorts a raw array or renames a location gets an error instead of
+ * changing the data under the lookups of every other consumer
+ */
+
+/**
+ * Freeze an object and everything in it
+ */
+function deepFreeze(value: object): void {
+  for (const child of Object.values(value)) {
+    if (child !== null && typeof child === 'object' && !Object.isFrozen(child)) deepFreeze(child);
+  }
+  Object.freeze(value);
+}
+
+/**
+ * Deep-freeze a dataset: the array, its locations and their aliases and
+ * coordinates. Datasets are shared between modules, so this is a no-op
+ * after the first call
+ * @param data - Dataset as imported from JSON
+ * @returns The same array, frozen
+ */
+export function freezeData<T extends object>(data: T[]): T[] {
+  if (!Object.isFrozen(data)) deepFreeze(data);
+  return data;
+}
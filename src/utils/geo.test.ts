@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { findNearest, getLocationsWithinRadius, haversineDistance } from './geo';
+import { createAddressBook } from './address-book';
+
+describe('findNearest', () => {
+  test('finds the nearest districts, closest first', () => {
+    const nearest = findNearest(23.8103, 90.4125, { limit: 3 });
+
+    expect(nearest.map((n) => n.item.slug)).toEqual(['dhaka', 'gazipur', 'narayanganj']);
+    expect(nearest.every((n, i) => i === 0 || n.distanceKm >= (nearest[i - 1]?.distanceKm as number))).toBe(true);
+  });
+
+  test('finds no upazilas or unions in the bundled data', () => {
+    expect(findNearest(23.8103, 90.4125, { type: 'upazila' })).toEqual([]);
+    expect(findNearest(23.8103, 90.4125, { type: 'union' })).toEqual([]);
+  });
+
+  test('finds upazilas an address book gives coordinates', () => {
+    const book = createAddressBook({
+      extend: {
+        upazilas: [
+          { id: 1, coordinates: { latitude: 22.0917, longitude: 90.2367 } },
+          { id: 3, coordinates: { latitude: 22.1591, longitude: 90.1262 } },
+        ],
+      },
+    });
+
+    const [nearest] = book.findNearest(22.16, 90.12, { type: 'upazila' });
+    expect(nearest?.item.name).toBe('Barguna Sadar');
+    expect(book.getLocationsWithinRadius(22.16, 90.12, 50, { type: 'upazila' })).toHaveLength(2);
+  });
+});
+
+describe('getLocationsWithinRadius', () => {
+  test('only returns locations inside the radius', () => {
+    const point = { latitude: 22.3569, longitude: 91.7832 };
+    const within = getLocationsWithinRadius(point.latitude, point.longitude, 80, { type: 'district' });
+
+    expect(within[0]?.item.slug).toBe('chattogram');
+    expect(within.every((n) => haversineDistance(point, n.item.coordinates!) <= 80)).toBe(true);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Geo utilities for Bangladesh address data
+ * Nearest-location and radius lookups over location coordinates,
+ * backed by a lazily built grid index (per location type)
+ */
+
+import type { Division, District, Upazila, Union, Coordinates } from '../types/location.types';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+// Static data imports (bundled for compatibility)
+import divisionsJson from '../data/divisions.json';
+import districtsJson from '../data/districts.json';
+import upazilasJson from '../data/upazilas.json';
+import unionsJson from '../data/unions.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+const districtsData = freezeData(districtsJson as District[]);
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+const unionsData = freezeData(unionsJson as Union[]);
+
+/** Mean Earth radius in km */
+const EARTH_RADIUS_KM = 6371.0088;
+
+/** Grid cell size in degrees (~28 km north-south) */
+const CELL_SIZE = 0.25;
+
+/**
+ * Location types of nearest and radius lookups. Only divisions and
+ * districts have coordinates in the bundled data; upazila and union
+ * centroids are not bundled, so those types only find locations an address
+ * book gives coordinates
+ */
+export type GeoLocationType = 'division' | 'district' | 'upazila' | 'union';
+
+/** Location of a geo location type */
+export type GeoLocation = Division | District | Upazila | Union;
+
+/**
+ * A location with its distance from the query point
+ */
+export interface NearbyLocation<T extends GeoLocation = GeoLocation> {
+  item: T;
+  type: GeoLocationType;
+  /** Great-circle (haversine) distance in km */
+  distanceKm: number;
+}
+
+/**
+ * Options for findNearest
+ */
+export interface FindNearestOptions {
+  /** Location type to look up */
+  type?: GeoLocationType;
+  /** Maximum number of results */
+  limit?: number;
+  /** Ignore locations farther than this (km) */
+  maxDistanceKm?: number;
+}
+
+/**
+ * Options for getLocationsWithinRadius
+ */
+export interface RadiusOptions {
+  /** Location type to look up */
+  type?: GeoLocationType;
+  /** Maximum number of results (nearest first) */
+  limit?: number;
+}
+
+const defaultFindNearestOptions: Required<FindNearestOptions> = {
+  type: 'district',
+  limit: 1,
+  maxDistanceKm: Infinity,
+};
+
+interface GeoGrid {
+  /** Locations that have coordinates, in original data order */
+  items: GeoLocation[];
+  /** Cell key -> positions in `items` */
+  cells: Map<string, number[]>;
+  minRow: number;
+  maxRow: number;
+  minCol: number;
+  maxCol: number;
+}
+
+const dataByType: Record<GeoLocationType, GeoLocation[]> = {
+  division: divisionsData,
+  district: districtsData,
+  upazila: upazilasData,
+  union: unionsData,
+};
+
+// Grids per dataset array, so address books get their own
+const grids = new WeakMap<readonly GeoLocation[], GeoGrid>();
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toCell(degrees: number): number {
+  return Math.floor(degrees / CELL_SIZE);
+}
+
+/**
+ * Calculate the great-circle distance between two points (haversine formula)
+ * @param from - First point
+ * @param to - Second point
+ * @returns Distance in km
+ */
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Get (building on first use) the grid index for a location type
+ */
+function getGeoGrid(dataset: LocationDataset, type: GeoLocationType): GeoGrid {
+  const data = dataOf(dataset, type, dataByType[type]);
+  let grid = grids.get(data);
+  if (!grid) {
+    const items = data.filter((item) => item.coordinates);
+    const cells = new Map<string, number[]>();
+    let minRow = Infinity;
+    let maxRow = -Infinity;
+    let minCol = Infinity;
+    let maxCol = -Infinity;
+
+    items.forEach((item, position) => {
+      const { latitude, longitude } = item.coordinates as Coordinates;
+      const row = toCell(latitude);
+      const col = toCell(longitude);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+
+      const key = `${row}:${col}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(position);
+      else cells.set(key, [position]);
+    });
+
+    grid = { items, cells, minRow, maxRow, minCol, maxCol };
+    grids.set(data, grid);
+  }
+  return grid;
+}
+
+/**
+ * Collect every location of a type within radiusKm, nearest first
+ */
+function collectWithinRadius(
+  dataset: LocationDataset,
+  type: GeoLocationType,
+  point: Coordinates,
+  radiusKm: number
+): NearbyLocation[] {
+  const grid = getGeoGrid(dataset, type);
+  if (grid.items.length === 0 || !(radiusKm >= 0)) return [];
+
+  // Bounding box of the circle: exact in latitude; in longitude the widest
+  // extent is asin(sin(r / R) / cos(lat)), or the whole grid near the poles
+  const dLat = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngRatio = Math.sin(Math.min(radiusKm / EARTH_RADIUS_KM, Math.PI / 2)) /
+    Math.cos(toRadians(point.latitude));
+  const dLng = lngRatio < 1 ? Math.asin(lngRatio) * (180 / Math.PI) : Infinity;
+
+  const fromRow = Math.max(grid.minRow, toCell(point.latitude - dLat));
+  const toRow = Math.min(grid.maxRow, toCell(point.latitude + dLat));
+  const fromCol = Math.max(grid.minCol, toCell(point.longitude - dLng));
+  const toCol = Math.min(grid.maxCol, toCell(point.longitude + dLng));
+
+  const results: { position: number; distanceKm: number }[] = [];
+  for (let row = fromRow; row <= toRow; row++) {
+    for (let col = fromCol; col <= toCol; col++) {
+      for (const position of grid.cells.get(`${row}:${col}`) ?? []) {
+        const item = grid.items[position] as GeoLocation;
+        const distanceKm = haversineDistance(point, item.coordinates as Coordinates);
+        if (distanceKm <= radiusKm) results.push({ position, distanceKm });
+      }
+    }
+  }
+
+  return results
+    .sort((a, b) => a.distanceKm - b.distanceKm || a.position - b.position)
+    .map(({ position, distanceKm }) => ({
+      item: grid.items[position] as GeoLocation,
+      type,
+      distanceKm,
+    }));
+}
+
+/**
+ * Build the geo functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createGeoFunctions(dataset: LocationDataset) {
+  return {
+    findNearest: (latitude: number, longitude: number, options: FindNearestOptions = {}): NearbyLocation[] => {
+      const opts = { ...defaultFindNearestOptions, ...options };
+      const grid = getGeoGrid(dataset, opts.type);
+      if (grid.items.length === 0 || opts.limit <= 0) return [];
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return [];
+
+      const point = { latitude, longitude };
+
+      // Widen the radius until it holds `limit` locations: everything within
+      // the radius is found, so the closest `limit` of them are the nearest overall
+      let radiusKm = Math.min(opts.maxDistanceKm, CELL_SIZE * 111);
+      for (;;) {
+        const results = collectWithinRadius(dataset, opts.type, point, radiusKm);
+        if (
+          results.length >= opts.limit ||
+          radiusKm >= opts.maxDistanceKm ||
+          radiusKm >= Math.PI * EARTH_RADIUS_KM
+        ) {
+          return results.slice(0, opts.limit);
+        }
+        radiusKm = Math.min(opts.maxDistanceKm, radiusKm * 2);
+      }
+    },
+    getLocationsWithinRadius: (
+      latitude: number,
+      longitude: number,
+      radiusKm: number,
+      options: RadiusOptions = {}
+    ): NearbyLocation[] => {
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return [];
+
+      const results = collectWithinRadius(
+        dataset,
+        options.type ?? defaultFindNearestOptions.type,
+        { latitude, longitude },
+        radiusKm
+      );
+      return options.limit !== undefined ? results.slice(0, options.limit) : results;
+    },
+  };
+}
+
+const bundled = createGeoFunctions(bundledDataset);
+
+/**
+ * Find the locations nearest to a point.
+ * Only locations that carry coordinates are considered (in the bundled
+ * data: divisions and districts).
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @param options - Location type (default 'district'), limit (default 1) and maximum distance
+ * @returns Nearest locations, closest first
+ */
+export function findNearest(
+  latitude: number,
+  longitude: number,
+  options: FindNearestOptions = {}
+): NearbyLocation[] {
+  return bundled.findNearest(latitude, longitude, options);
+}
+
+/**
+ * Get all locations within a radius of a point, nearest first.
+ * Only locations that carry coordinates are considered (in the bundled
+ * data: divisions and districts).
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @param radiusKm - Radius in km
+ * @param options - Location type (default 'district') and limit
+ * @returns Locations within the radius, closest first
+ */
+export function getLocationsWithinRadius(
+  latitude: number,
+  longitude: number,
+  radiusKm: number,
+  options: RadiusOptions = {}
+): NearbyLocation[] {
+  return bundled.getLocationsWithinRadius(latitude, longitude, radiusKm, options);
+}
+
+export default {
+  haversineDistance,
+  findNearest,
+  getLocationsWithinRadius,
+};
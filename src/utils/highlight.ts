@@ -0,0 +1,116 @@
+/**
+ * Match highlighting for Bangladesh address data
+ * Finds the ranges of a query in a matched name and splits the name into
+ * highlighted and plain segments, without cutting Bengali letters apart
+ * from their vowel signs
+ */
+
+import type { HighlightRange, HighlightSegment } from '../types/location.types';
+
+// Grapheme segmentation where the runtime has it (Node 16+, modern browsers)
+const segmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : undefined;
+
+// Without Intl.Segmenter: combining marks and joiners belong to the character before
+const COMBINING = /[\p{M}\u200C\u200D]/u;
+
+/**
+ * Offsets at which a grapheme cluster starts, plus the text length
+ */
+function graphemeBoundaries(text: string): number[] {
+  if (segmenter) {
+    return [...Array.from(segmenter.segment(text), (segment) => segment.index), text.length];
+  }
+
+  const boundaries: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (i === 0 || !COMBINING.test(text[i] as string)) boundaries.push(i);
+  }
+  boundaries.push(text.length);
+  return boundaries;
+}
+
+/**
+ * Widen ranges to whole grapheme clusters and merge the ones that then touch
+ */
+function snapToGraphemes(text: string, ranges: HighlightRange[]): HighlightRange[] {
+  // ASCII text has one character per cluster
+  if (ranges.length === 0 || !/[^\x00-\x7F]/.test(text)) return ranges;
+
+  const boundaries = graphemeBoundaries(text);
+  const snapped: HighlightRange[] = [];
+
+  for (const [start, end] of ranges) {
+    const from = boundaries.filter((b) => b <= start).pop() ?? 0;
+    const to = boundaries.find((b) => b >= end) ?? text.length;
+    const last = snapped[snapped.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      snapped.push([from, to]);
+    }
+  }
+  return snapped;
+}
+
+/**
+ * Find the ranges of a query in a text: every occurrence of the whole
+ * query, or else of each of its words. Matching ignores case, and ranges
+ * cover whole grapheme clusters, so a Bengali consonant is highlighted
+ * together with its vowel sign.
+ * @param text - Matched name, slug or alias
+ * @param query - Normalized, lowercased query
+ * @returns Sorted, non-overlapping ranges (empty when the query does not occur)
+ */
+export function findHighlights(text: string, query: string): HighlightRange[] {
+  const lowerText = text.toLowerCase();
+  const find = (needle: string): HighlightRange[] => {
+    const ranges: HighlightRange[] = [];
+    if (!needle) return ranges;
+    for (let at = lowerText.indexOf(needle); at >= 0; at = lowerText.indexOf(needle, at + needle.length)) {
+      ranges.push([at, at + needle.length]);
+    }
+    return ranges;
+  };
+
+  const whole = find(query);
+  if (whole.length > 0) return snapToGraphemes(text, whole);
+
+  const words = query
+    .split(' ')
+    .flatMap(find)
+    .sort((a, b) => a[0] - b[0])
+    .filter((range, i, ranges) => i === 0 || range[0] >= (ranges[i - 1] as HighlightRange)[1]);
+  return snapToGraphemes(text, words);
+}
+
+/**
+ * Split a text into highlighted and plain segments, ready to render
+ * (e.g. highlighted segments in `<mark>`)
+ * @param text - Matched text of a search result
+ * @param highlights - Ranges to highlight
+ * @returns Segments in order; joined, they give the text back
+ */
+export function getHighlightSegments(text: string, highlights: HighlightRange[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let at = 0;
+
+  for (const [start, end] of [...highlights].sort((a, b) => a[0] - b[0])) {
+    const from = Math.max(start, at);
+    const to = Math.min(end, text.length);
+    if (to <= from) continue;
+    if (from > at) segments.push({ text: text.slice(at, from), highlighted: false });
+    segments.push({ text: text.slice(from, to), highlighted: true });
+    at = to;
+  }
+
+  if (at < text.length) segments.push({ text: text.slice(at), highlighted: false });
+  return segments;
+}
+
+export default {
+  findHighlights,
+  getHighlightSegments,
+};
@@ -0,0 +1,36 @@
+/**
+ * Async loaders for the heavy parts of Bangladesh address data
+ * Each loader imports its entry point on first call, so bundlers split the
+ * data into a chunk that is only downloaded when it is needed
+ */
+
+/**
+ * Load the upazila functions (`bd-address-pro/upazilas`)
+ * @returns The upazilas module, e.g. `const { getUpazilasByDistrict } = await loadUpazilas()`
+ */
+export function loadUpazilas(): Promise<typeof import('../upazilas')> {
+  return import('../upazilas');
+}
+
+/**
+ * Load the union functions (`bd-address-pro/unions`), including the
+ * ~4,600 unions
+ * @returns The unions module, e.g. `const { getUnionsByUpazila } = await loadUnions()`
+ */
+export function loadUnions(): Promise<typeof import('../unions')> {
+  return import('../unions');
+}
+
+/**
+ * Load search (`bd-address-pro/search`), which indexes every location type
+ * @returns The search module, e.g. `const { searchAll } = await loadSearch()`
+ */
+export function loadSearch(): Promise<typeof import('../search')> {
+  return import('../search');
+}
+
+export default {
+  loadUpazilas,
+  loadUnions,
+  loadSearch,
+};
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import type { BaseLocation } from '../types/location.types';
+import { filterBy, findBy, findById, findByName, findBySlug, getGroupIndex } from './lookup';
+import { searchAll } from './search';
+import { checkAddressPayload } from './schema';
+
+const data: (BaseLocation & { parentId: number })[] = [
+  { id: 1, parentId: 10, name: 'Cumilla', bnName: 'কুমিল্লা', slug: 'cumilla', aliases: [{ name: 'Comilla', type: 'former' }] },
+  { id: 2, parentId: 10, name: 'Feni', bnName: 'ফেনী', slug: 'feni' },
+  { id: 3, parentId: 20, name: 'Sylhet', bnName: 'সিলেট', slug: 'sylhet' },
+];
+
+describe('indexed lookups', () => {
+  test('find by id, slug and field', () => {
+    expect(findById(data, 2)?.name).toBe('Feni');
+    expect(findById(data, 4)).toBeUndefined();
+    expect(findBySlug(data, ' Sylhet ')?.id).toBe(3);
+    expect(findBy(data, 'parentId', 20)?.id).toBe(3);
+  });
+
+  test('find by name, Bengali name or alias', () => {
+    expect(findByName(data, 'feni')?.id).toBe(2);
+    expect(findByName(data, 'সিলেট')?.id).toBe(3);
+    expect(findByName(data, 'COMILLA')?.id).toBe(1);
+  });
+
+  test('filterBy returns a new array each time', () => {
+    const group = filterBy(data, 'parentId', 10);
+    group.splice(0);
+
+    expect(filterBy(data, 'parentId', 10).map((item) => item.id)).toEqual([1, 2]);
+    expect(filterBy(data, 'parentId', 30)).toEqual([]);
+  });
+
+  test('indexes are built once per array and index name', () => {
+    let calls = 0;
+    const key = (item: { parentId: number }) => {
+      calls++;
+      return item.parentId;
+    };
+
+    const index = getGroupIndex(data, 'counted', key);
+    expect(getGroupIndex(data, 'counted', key)).toBe(index);
+    expect(calls).toBe(data.length);
+    expect(getGroupIndex([...data], 'counted', key)).not.toBe(index);
+  });
+});
+
+describe('indexed callers', () => {
+  test('searchAll paths name every ancestor', () => {
+    const [savar] = searchAll('savar', { types: ['upazila'], limit: 1 });
+
+    expect(savar?.path.district?.name).toBe('Dhaka');
+    expect(savar?.path.division?.name).toBe('Dhaka');
+  });
+
+  test('checkAddressPayload resolves slugs', () => {
+    expect(checkAddressPayload({ division: 'barishal', district: 'barguna', upazila: 'amtali' })).toEqual([]);
+    expect(checkAddressPayload({ division: 'dhaka', district: 'barguna' })).toEqual([
+      expect.objectContaining({ field: 'district' }),
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Id, slug, name and parent lookups shared by the location modules
+ * Each dataset gets Map indexes, built on first lookup, so every getter is
+ * a constant-time Map lookup instead of a scan over the array
+ */
+
+import type { BaseLocation } from '../types/location.types';
+import { normalizeName } from './normalize';
+
+type GroupKey = number | string | undefined;
+
+// Items of a dataset grouped by a key (id, slug, parent id, ...), by index name
+const groupIndexes = new WeakMap<readonly object[], Map<string, Map<GroupKey, object[]>>>();
+
+// Name and alias keys of a dataset -> first location with that key
+const nameIndexes = new WeakMap<
+  readonly BaseLocation[],
+  { names: Map<string, BaseLocation>; aliases: Map<string, BaseLocation> }
+>();
+
+/**
+ * Get (building on first use) an index of a dataset: key -> items with
+ * that key, in data order
+ * @param data - Dataset (indexes are cached per array)
+ * @param name - Index name, unique per dataset (e.g. 'districtId')
+ * @param getKey - Key of an item
+ */
+export function getGroupIndex<T extends object>(
+  data: readonly T[],
+  name: string,
+  getKey: (item: T) => GroupKey
+): Map<GroupKey, T[]> {
+  let indexes = groupIndexes.get(data);
+  if (!indexes) {
+    indexes = new Map();
+    groupIndexes.set(data, indexes);
+  }
+
+  let index = indexes.get(name) as Map<GroupKey, T[]> | undefined;
+  if (!index) {
+    index = new Map();
+    for (const item of data) {
+      const key = getKey(item);
+      const group = index.get(key);
+      if (group) group.push(item);
+      else index.set(key, [item]);
+    }
+    indexes.set(name, index as Map<GroupKey, object[]>);
+  }
+  return index;
+}
+
+/**
+ * Items whose field has a value (e.g. upazilas with a districtId), in data
+ * order; a new array, so callers may change it
+ */
+export function filterBy<T extends object, K extends keyof T & string>(
+  data: readonly T[],
+  field: K,
+  value: T[K]
+): T[] {
+  const group = getGroupIndex(data, field, (item) => item[field] as GroupKey).get(value as GroupKey);
+  return group ? [...group] : [];
+}
+
+/**
+ * Find the first item whose field has a value
+ */
+export function findBy<T extends object, K extends keyof T & string>(
+  data: readonly T[],
+  field: K,
+  value: T[K]
+): T | undefined {
+  return getGroupIndex(data, field, (item) => item[field] as GroupKey).get(value as GroupKey)?.[0];
+}
+
+/**
+ * Find a location by id
+ */
+export function findById<T extends { id: number }>(data: readonly T[], id: number): T | undefined {
+  return findBy(data, 'id', id);
+}
+
+/**
+ * Find a location by name (English or Bengali), falling back to aliases.
+ * Names are compared normalized (case, Unicode form, digits, invisible characters)
+ */
+export function findByName<T extends BaseLocation>(data: readonly T[], name: string): T | undefined {
+  let index = nameIndexes.get(data);
+  if (!index) {
+    index = { names: new Map(), aliases: new Map() };
+    for (const location of data) {
+      for (const key of [location.name, location.bnName].map(normalizeName)) {
+        if (!index.names.has(key)) index.names.set(key, location);
+      }
+      const aliasKeys = (location.aliases ?? [])
+        .flatMap((a) => [a.name, a.bnName])
+        .filter((n): n is string => n !== undefined)
+        .map(normalizeName);
+      for (const key of aliasKeys) {
+        if (!index.aliases.has(key)) index.aliases.set(key, location);
+      }
+    }
+    nameIndexes.set(data, index);
+  }
+
+  const key = normalizeName(name);
+  return (index.names.get(key) ?? index.aliases.get(key)) as T | undefined;
+}
+
+/**
+ * Find a location by slug, compared normalized
+ */
+export function findBySlug<T extends BaseLocation>(data: readonly T[], slug: string): T | undefined {
+  return findBy(data, 'slug', normalizeName(slug));
+}
@@ -0,0 +1,112 @@
+/**
+ * Text normalization utilities for Bangladesh address data
+ * Folds the ways the same Bengali or English text can be typed or pasted
+ * (Bengali digits, precomposed vs nukta letters, invisible joiners, stray
+ * punctuation) into one form, so names and postal codes compare equal
+ */
+
+const BENGALI_DIGITS = '০১২৩৪৫৬৭৮৯';
+
+const HASANTA = '্';
+const ZWJ = '\u200D';
+
+// Zero-width space/joiners, direction marks, word joiner, BOM and soft hyphen
+const INVISIBLE_CHARS = '\\u200B-\\u200F\\u2060\\uFEFF\\u00AD';
+const INVISIBLE = new RegExp(`[${INVISIBLE_CHARS}]`, 'g');
+
+// Hasanta closing a word (a dangling virama); invisible characters after it don't count
+const TRAILING_HASANTA = new RegExp(
+  `${HASANTA}+(?=[${INVISIBLE_CHARS}]*(?:$|[^\\p{L}\\p{M}${INVISIBLE_CHARS}]))`,
+  'gu'
+);
+
+// Whitespace and punctuation that carry no meaning at either end
+const EDGE_PUNCTUATION = /^[\s.,;:!?'"()[\]{}\-।]+|[\s.,;:!?'"()[\]{}\-।]+$/g;
+
+/**
+ * Convert Bengali digits to ASCII digits ("১২১৬" -> "1216")
+ * @param text - Text containing digits
+ * @returns Text with ASCII digits
+ */
+export function toAsciiDigits(text: string): string {
+  return text.replace(/[০-৯]/g, (digit) => String(digit.charCodeAt(0) - 0x09e6));
+}
+
+/**
+ * Convert ASCII digits to Bengali digits ("1340" -> "১৩৪০")
+ * @param text - Text containing digits
+ * @returns Text with Bengali digits
+ */
+export function toBengaliDigits(text: string): string {
+  return text.replace(/[0-9]/g, (digit) => BENGALI_DIGITS[Number(digit)] as string);
+}
+
+/**
+ * Remove zero-width and other invisible characters (ZWJ, ZWNJ, BOM, ...)
+ * @param text - Text to clean
+ * @returns Text without invisible characters
+ */
+export function stripInvisible(text: string): string {
+  return text.replace(INVISIBLE, '');
+}
+
+/**
+ * Bring Bengali text into one canonical form: Unicode NFC (so the
+ * precomposed ড় ঢ় য় and consonant + nukta compare equal, and split vowel
+ * signs are joined), the legacy ত + hasanta + ZWJ written as ৎ, and
+ * hasanta at the end of a word dropped
+ * @param text - Bengali (or mixed) text
+ * @returns Canonical text
+ */
+export function canonicalizeBengali(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(new RegExp(`\u09A4${HASANTA}${ZWJ}`, 'g'), '\u09CE')
+    .replace(TRAILING_HASANTA, '');
+}
+
+/**
+ * Tidy whitespace and punctuation: curly quotes and dashes become plain
+ * ones, runs of whitespace become one space, and punctuation at either end
+ * is dropped ("  Cox’s   Bazar. " -> "Cox's Bazar")
+ * @param text - Text to clean
+ * @returns Cleaned text
+ */
+export function cleanPunctuation(text: string): string {
+  return text
+    .replace(/[\u2018\u2019\u02BC`\u00B4]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2010-\u2015\u2212]/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(EDGE_PUNCTUATION, '');
+}
+
+/**
+ * Normalize text for comparison: canonical Bengali, no invisible
+ * characters, ASCII digits and tidy whitespace/punctuation. Case is kept.
+ * @param text - Name, postal code or free text
+ * @returns Normalized text
+ */
+export function normalizeText(text: string): string {
+  return cleanPunctuation(toAsciiDigits(stripInvisible(canonicalizeBengali(text))));
+}
+
+/**
+ * Normalize a name into a case-insensitive lookup key
+ * (e.g. " ঢাকা। " and "ঢাকা" give the same key)
+ * @param text - Name or slug in English or Bengali
+ * @returns Lookup key
+ */
+export function normalizeName(text: string): string {
+  return normalizeText(text).toLowerCase();
+}
+
+export default {
+  toAsciiDigits,
+  toBengaliDigits,
+  stripInvisible,
+  canonicalizeBengali,
+  cleanPunctuation,
+  normalizeText,
+  normalizeName,
+};
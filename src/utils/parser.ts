@@ -0,0 +1,576 @@
+/**
+ * Free-text address parser for Bangladesh addresses
+ * Resolves lines like "House 12, Road 5, Mirpur, Dhaka-1216" or
+ * "গ্রাম: চরফ্যাশন, জেলা: ভোলা" to a FullAddress
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  CityCorporation,
+  Thana,
+  FullAddress,
+  UrbanAddress,
+  AnyLocation,
+  LocationType,
+} from '../types/location.types';
+import { createSearchFunctions } from './search';
+import { normalizeName, toAsciiDigits, stripInvisible, canonicalizeBengali } from './normalize';
+import { freezeData } from './freeze';
+import { findById, filterBy } from './lookup';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+// Static data imports (bundled for compatibility)
+import divisionsJson from '../data/divisions.json';
+import districtsJson from '../data/districts.json';
+import upazilasJson from '../data/upazilas.json';
+import unionsJson from '../data/unions.json';
+import cityCorporationsJson from '../data/city-corporations.json';
+import thanasJson from '../data/thanas.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+const districtsData = freezeData(districtsJson as District[]);
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+const unionsData = freezeData(unionsJson as Union[]);
+const cityCorporationsData = freezeData(cityCorporationsJson as CityCorporation[]);
+const thanasData = freezeData(thanasJson as Thana[]);
+
+/**
+ * Label recognized in front of (or after) an address segment,
+ * e.g. "জেলা: ভোলা", "P.O. Amtali", "Barguna Dist."
+ */
+export type AddressLabel =
+  | 'village'
+  | 'postOffice'
+  | 'union'
+  | 'upazila'
+  | 'district'
+  | 'division';
+
+/**
+ * A single comma-separated part of the parsed address
+ */
+export interface ParsedSegment {
+  /** Segment text with label and postal code removed */
+  text: string;
+  /** Label found on the segment, if any */
+  label?: AddressLabel;
+  /** Location type this segment resolved to in the final address */
+  matchedType?: LocationType;
+}
+
+/**
+ * Result of parsing a free-text address
+ */
+export interface ParsedAddress {
+  /** Resolved address; undefined when no upazila could be determined */
+  address?: FullAddress;
+  /** Every level that could be resolved, even if the address is incomplete */
+  components: Partial<FullAddress>;
+  /**
+   * Resolved metropolitan address, when the area is a thana rather than
+   * an upazila (e.g. "Mirpur, Dhaka")
+   */
+  urbanAddress?: UrbanAddress;
+  /** 4-digit postal code found in the text */
+  postalCode?: string;
+  /** Segments not used for resolution (house, road, village, ...) */
+  remainder: string[];
+  /** Confidence of the resolution (0-1) */
+  confidence: number;
+  /** All segments in input order */
+  segments: ParsedSegment[];
+}
+
+/**
+ * Parse options interface
+ */
+export interface ParseAddressOptions {
+  /** Minimum fuzzy score (0-1) for a segment to be considered a location name */
+  minScore?: number;
+}
+
+const defaultParseOptions: Required<ParseAddressOptions> = {
+  minScore: 0.8,
+};
+
+/** Administrative levels an address resolves to (rural hierarchy) */
+type Level = 'division' | 'district' | 'upazila' | 'union';
+
+const LEVELS: Level[] = ['division', 'district', 'upazila', 'union'];
+
+const LABEL_TYPES: Partial<Record<AddressLabel, Level>> = {
+  union: 'union',
+  upazila: 'upazila',
+  district: 'district',
+  division: 'division',
+};
+
+const LABEL_PATTERNS: { label: AddressLabel; pattern: string }[] = [
+  { label: 'village', pattern: 'গ্রাম|vill(?:age)?|gram' },
+  { label: 'postOffice', pattern: 'ডাকঘর|পোস্ট অফিস|p\\.?\\s?o|post\\s*office' },
+  { label: 'union', pattern: 'ইউনিয়ন|union' },
+  { label: 'upazila', pattern: 'উপজেলা|থানা|upazila|upazilla|thana|p\\.?\\s?s|u/z' },
+  { label: 'district', pattern: 'জেলা|dist(?:rict)?|zila|zilla' },
+  { label: 'division', pattern: 'বিভাগ|division|div' },
+];
+
+const PREFIX_LABELS = LABEL_PATTERNS.map(({ label, pattern }) => ({
+  label,
+  regex: new RegExp(`^(?:${pattern})\\.?(?:\\s*[:ঃ\\-–]\\s*|\\s+)`, 'i'),
+}));
+
+const SUFFIX_LABELS = LABEL_PATTERNS.map(({ label, pattern }) => ({
+  label,
+  regex: new RegExp(`(?:\\s+|\\s*[\\-–]\\s*)(?:${pattern})\\.?$`, 'i'),
+}));
+
+const POSTAL_CODE_REGEX = /(?:^|[\s\-–:])(\d{4})(?=$|[\s,.])/;
+
+interface Candidate {
+  type: Level;
+  item: AnyLocation;
+  score: number;
+}
+
+interface Segment extends ParsedSegment {
+  candidates: Candidate[];
+}
+
+type Chain = Partial<FullAddress>;
+
+// Exact-name index per dataset, so address books get their own
+const nameIndexes = new WeakMap<LocationDataset, Map<string, Candidate[]>>();
+
+/**
+ * Normalize a name into a lookup key
+ */
+function toKey(text: string): string {
+  return normalizeName(text)
+    .replace(/_/g, ' ')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Build (once per dataset) an exact-name index over all locations
+ */
+function getNameIndex(dataset: LocationDataset): Map<string, Candidate[]> {
+  const cached = nameIndexes.get(dataset);
+  if (cached) return cached;
+
+  const index = new Map<string, Candidate[]>();
+  const add = (type: Level, item: AnyLocation) => {
+    const keys = new Set([toKey(item.name), toKey(item.bnName), toKey(item.slug)]);
+    // Former and colloquial names ("Chittagong", "Bogra") resolve as well
+    for (const alias of item.aliases ?? []) {
+      if (alias.name) keys.add(toKey(alias.name));
+      if (alias.bnName) keys.add(toKey(alias.bnName));
+    }
+    for (const key of keys) {
+      if (!key) continue;
+      const list = index.get(key) ?? [];
+      list.push({ type, item, score: 1 });
+      index.set(key, list);
+    }
+  };
+
+  for (const division of dataOf(dataset, 'division', divisionsData)) add('division', division);
+  for (const district of dataOf(dataset, 'district', districtsData)) add('district', district);
+  for (const upazila of dataOf(dataset, 'upazila', upazilasData)) add('upazila', upazila);
+  for (const union of dataOf(dataset, 'union', unionsData)) add('union', union);
+
+  nameIndexes.set(dataset, index);
+  return index;
+}
+
+/**
+ * Find candidate locations for a piece of text
+ */
+function findCandidates(
+  dataset: LocationDataset,
+  text: string,
+  types: Level[],
+  minScore: number,
+  allowFuzzy: boolean
+): Candidate[] {
+  const exact = (getNameIndex(dataset).get(toKey(text)) ?? []).filter((c) =>
+    types.includes(c.type)
+  );
+  if (exact.length > 0 || !allowFuzzy) return exact;
+
+  const result = createSearchFunctions(dataset).search(text, { types, threshold: minScore, limit: 5 });
+  return [
+    ...result.divisions.map((r) => ({ type: 'division' as const, item: r.item, score: r.score })),
+    ...result.districts.map((r) => ({ type: 'district' as const, item: r.item, score: r.score })),
+    ...result.upazilas.map((r) => ({ type: 'upazila' as const, item: r.item, score: r.score })),
+    ...result.unions.map((r) => ({ type: 'union' as const, item: r.item, score: r.score })),
+  ];
+}
+
+/**
+ * Strip a prefix or suffix label from a segment
+ */
+function extractLabel(text: string): { text: string; label?: AddressLabel } {
+  for (const { label, regex } of PREFIX_LABELS) {
+    const match = text.match(regex);
+    if (match) return { text: text.slice(match[0].length).trim(), label };
+  }
+  for (const { label, regex } of SUFFIX_LABELS) {
+    const match = text.match(regex);
+    if (match && match.index) return { text: text.slice(0, match.index).trim(), label };
+  }
+  return { text };
+}
+
+/**
+ * Split an unlabelled segment into known location names and leftover words,
+ * e.g. "Mirpur Dhaka" -> ["Mirpur", "Dhaka"]
+ */
+function splitByKnownNames(dataset: LocationDataset, text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const index = getNameIndex(dataset);
+  const parts: string[] = [];
+  let leftover: string[] = [];
+  let found = false;
+
+  for (let i = 0; i < words.length; ) {
+    let matched = 0;
+    for (let size = Math.min(3, words.length - i); size > 0; size--) {
+      if (index.has(toKey(words.slice(i, i + size).join(' ')))) {
+        matched = size;
+        break;
+      }
+    }
+
+    if (matched === 0) {
+      leftover.push(words[i] as string);
+      i++;
+      continue;
+    }
+
+    if (leftover.length > 0) parts.push(leftover.join(' '));
+    leftover = [];
+    parts.push(words.slice(i, i + matched).join(' '));
+    found = true;
+    i += matched;
+  }
+
+  if (leftover.length > 0) parts.push(leftover.join(' '));
+  return found ? parts : [text];
+}
+
+/**
+ * Tokenize the input into labelled segments and extract the postal code
+ */
+function tokenize(dataset: LocationDataset, text: string): { segments: Segment[]; postalCode?: string } {
+  let postalCode: string | undefined;
+  const segments: Segment[] = [];
+
+  const rawParts = toAsciiDigits(stripInvisible(canonicalizeBengali(text)))
+    .split(/[,;|\n]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  for (const rawPart of rawParts) {
+    let part = rawPart;
+
+    const postalMatch = part.match(POSTAL_CODE_REGEX);
+    if (postalMatch && !postalCode) {
+      postalCode = postalMatch[1];
+      part = (part.slice(0, postalMatch.index) + part.slice((postalMatch.index ?? 0) + postalMatch[0].length))
+        .replace(/[\s\-–:]+$/, '')
+        .trim();
+    }
+    if (!part) continue;
+
+    const { text: value, label } = extractLabel(part);
+    if (!value) continue;
+
+    if (label) {
+      segments.push({ text: value, label, candidates: [] });
+    } else {
+      for (const piece of splitByKnownNames(dataset, value)) {
+        segments.push({ text: piece, candidates: [] });
+      }
+    }
+  }
+
+  return { segments, postalCode };
+}
+
+/**
+ * Parse a district postal code range like "8700-8799"
+ */
+function isInRange(code: string, range: string | undefined): boolean {
+  if (!range) return false;
+  const [from, to] = range.split('-').map(Number);
+  const value = Number(code);
+  return from !== undefined && to !== undefined && value >= from && value <= to;
+}
+
+/**
+ * Build the ancestor chain of a candidate location
+ */
+function buildChain(dataset: LocationDataset, candidate: Candidate): Chain | undefined {
+  const chain: Chain = {};
+
+  if (candidate.type === 'union') {
+    chain.union = candidate.item as Union;
+  }
+  const upazilaId =
+    candidate.type === 'upazila' ? candidate.item.id : chain.union?.upazilaId;
+  if (upazilaId !== undefined) {
+    chain.upazila = findById(dataOf(dataset, 'upazila', upazilasData), upazilaId);
+    if (!chain.upazila) return undefined;
+  }
+  const districtId =
+    candidate.type === 'district' ? candidate.item.id : chain.upazila?.districtId;
+  if (districtId !== undefined) {
+    chain.district = findById(dataOf(dataset, 'district', districtsData), districtId);
+    if (!chain.district) return undefined;
+  }
+  const divisionId =
+    candidate.type === 'division' ? candidate.item.id : chain.district?.divisionId;
+  chain.division =
+    divisionId !== undefined ? findById(dataOf(dataset, 'division', divisionsData), divisionId) : undefined;
+  if (!chain.division) return undefined;
+
+  return chain;
+}
+
+/**
+ * Assign segments to chain levels (one segment per level) and score the chain
+ */
+function scoreChain(
+  chain: Chain,
+  segments: Segment[],
+  postalCode: string | undefined
+): { support: number; bonus: number; assignment: Map<number, Level> } {
+  const pairs: { segment: number; type: Level; score: number; labelled: boolean }[] = [];
+
+  segments.forEach((segment, i) => {
+    const labelled = segment.label !== undefined && LABEL_TYPES[segment.label] !== undefined;
+    for (const candidate of segment.candidates) {
+      if (chain[candidate.type]?.id === candidate.item.id) {
+        pairs.push({ segment: i, type: candidate.type, score: candidate.score, labelled });
+      }
+    }
+  });
+
+  // Best score first, then explicitly labelled segments, then the deeper level
+  // ("Dhaka" next to "Savar" is the district, not the division)
+  pairs.sort(
+    (a, b) =>
+      b.score - a.score ||
+      Number(b.labelled) - Number(a.labelled) ||
+      LEVELS.indexOf(b.type) - LEVELS.indexOf(a.type)
+  );
+
+  const assignment = new Map<number, Level>();
+  const claimed = new Set<Level>();
+  let support = 0;
+
+  for (const pair of pairs) {
+    if (assignment.has(pair.segment) || claimed.has(pair.type)) continue;
+    assignment.set(pair.segment, pair.type);
+    claimed.add(pair.type);
+    support += pair.score;
+  }
+
+  let bonus = 0;
+  if (postalCode) {
+    if (chain.upazila?.postalCode === postalCode) bonus = 0.5;
+    else if (isInRange(postalCode, chain.district?.postalCode)) bonus = 0.25;
+  }
+
+  return { support, bonus, assignment };
+}
+
+/**
+ * Check whether two chains point to different places at a shared level
+ */
+function chainsConflict(a: Chain, b: Chain): boolean {
+  return LEVELS.some((level) => {
+    const x = a[level];
+    const y = b[level];
+    return x !== undefined && y !== undefined && x.id !== y.id;
+  });
+}
+
+/**
+ * Build the parser functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createParserFunctions(dataset: LocationDataset) {
+  const districts = dataOf(dataset, 'district', districtsData);
+  const upazilas = dataOf(dataset, 'upazila', upazilasData);
+  const cityCorporations = dataOf(dataset, 'cityCorporation', cityCorporationsData);
+  const allThanas = dataOf(dataset, 'thana', thanasData);
+
+  return {
+    parseAddress: (text: string, options?: ParseAddressOptions): ParsedAddress => {
+      const opts = { ...defaultParseOptions, ...options };
+      const { segments, postalCode } = tokenize(dataset, text || '');
+
+      for (const segment of segments) {
+        const labelType = segment.label ? LABEL_TYPES[segment.label] : undefined;
+        const types = labelType ? [labelType] : LEVELS;
+        const allowFuzzy = segment.text.length >= 3 && !/\d/.test(segment.text);
+        segment.candidates = findCandidates(dataset, segment.text, types, opts.minScore, allowFuzzy);
+      }
+
+      // Every candidate defines a possible hierarchy; keep the best supported one
+      const seen = new Set<string>();
+      const ranked: { chain: Chain; anchor: Level; support: number; total: number; assignment: Map<number, Level> }[] = [];
+
+      for (const segment of segments) {
+        for (const candidate of segment.candidates) {
+          const key = `${candidate.type}:${candidate.item.id}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          const chain = buildChain(dataset, candidate);
+          if (!chain) continue;
+
+          const { support, bonus, assignment } = scoreChain(chain, segments, postalCode);
+          ranked.push({ chain, anchor: candidate.type, support, total: support + bonus, assignment });
+        }
+      }
+
+      // Higher support first; on ties prefer the higher administrative level
+      ranked.sort(
+        (a, b) =>
+          b.total - a.total || LEVELS.indexOf(a.anchor) - LEVELS.indexOf(b.anchor)
+      );
+
+      const best = ranked[0];
+      const parsedSegments: ParsedSegment[] = segments.map(({ text: value, label }) =>
+        label ? { text: value, label } : { text: value }
+      );
+
+      if (!best) {
+        return {
+          components: {},
+          postalCode,
+          remainder: segments.map((s) => s.text),
+          confidence: 0,
+          segments: parsedSegments,
+        };
+      }
+
+      const components: Partial<FullAddress> = { ...best.chain };
+      const remainder: string[] = [];
+
+      segments.forEach((segment, i) => {
+        const type = best.assignment.get(i);
+        if (type) {
+          (parsedSegments[i] as ParsedSegment).matchedType = type;
+        } else {
+          remainder.push(segment.text);
+        }
+      });
+
+      // Fill in a missing upazila from the postal code when it is unambiguous
+      let upazilaInferred = false;
+      if (!components.upazila && components.district && postalCode) {
+        const districtId = components.district.id;
+        const matches = filterBy(upazilas, 'districtId', districtId).filter(
+          (u) => u.postalCode === postalCode
+        );
+        if (matches.length === 1) {
+          components.upazila = matches[0];
+          upazilaInferred = true;
+        }
+      }
+
+      // In metropolitan areas the area is a thana: look for one in the resolved
+      // district (or, when only the division is known, in its districts)
+      let urbanAddress: UrbanAddress | undefined;
+      const { division: resolvedDivision } = components;
+      if (!components.upazila && resolvedDivision) {
+        const districtIds = components.district
+          ? [components.district.id]
+          : filterBy(districts, 'divisionId', resolvedDivision.id).map((d) => d.id);
+        const thanas = districtIds.flatMap((id) => filterBy(allThanas, 'districtId', id));
+
+        segments.forEach((segment, i) => {
+          if (urbanAddress || best.assignment.has(i)) return;
+          const key = toKey(segment.text);
+          const thana = thanas.find((t) =>
+            [t.name, t.bnName, ...(t.aliases ?? []).flatMap((a) => [a.name, a.bnName])].some(
+              (name) => name !== undefined && toKey(name) === key
+            )
+          );
+          const district = thana && findById(districts, thana.districtId);
+          if (!thana || !district) return;
+
+          components.district = district;
+          urbanAddress = {
+            division: resolvedDivision,
+            district,
+            cityCorporation: findById(cityCorporations, thana.cityCorporationId),
+            thana,
+          };
+          (parsedSegments[i] as ParsedSegment).matchedType = 'thana';
+          remainder.splice(remainder.indexOf(segment.text), 1);
+        });
+      }
+
+      // Confidence: average match score, scaled by how deep the resolution goes
+      // (an exactly matched thana counts as a fully supported level)
+      const thanaCount = urbanAddress ? 1 : 0;
+      const claimedCount = best.assignment.size + thanaCount;
+      let confidence = claimedCount > 0 ? (best.support + thanaCount) / claimedCount : 0;
+
+      if (components.upazila) confidence *= upazilaInferred ? 0.85 : 1;
+      else if (!urbanAddress) confidence *= components.district ? 0.6 : 0.3;
+
+      if (postalCode) {
+        if (components.upazila?.postalCode === postalCode) confidence += 0.1;
+        else if (isInRange(postalCode, components.district?.postalCode)) confidence += 0.05;
+        else if (components.district?.postalCode) confidence *= 0.7;
+      }
+
+      const runnerUp = ranked.find((r) => r !== best && chainsConflict(r.chain, best.chain));
+      if (runnerUp && runnerUp.total === best.total) confidence *= 0.7;
+
+      const { division, district, upazila, union } = components;
+      const address: FullAddress | undefined =
+        division && district && upazila
+          ? union
+            ? { division, district, upazila, union }
+            : { division, district, upazila }
+          : undefined;
+
+      return {
+        address,
+        components,
+        urbanAddress,
+        postalCode,
+        remainder,
+        confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100,
+        segments: parsedSegments,
+      };
+    },
+  };
+}
+
+const bundled = createParserFunctions(bundledDataset);
+
+/**
+ * Parse a free-text Bangladeshi address and resolve it to a FullAddress
+ * @param text - Address line (English, Bengali or mixed)
+ * @param options - Parse options
+ * @returns ParsedAddress with resolved address, remainder and confidence
+ */
+export function parseAddress(text: string, options?: ParseAddressOptions): ParsedAddress {
+  return bundled.parseAddress(text, options);
+}
+
+export default {
+  parseAddress,
+};
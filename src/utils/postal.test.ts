@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'bun:test';
+import { getPostOfficeByCode, getPostOfficesByUpazila, lookupPostalCode } from './postal';
+
+describe('lookupPostalCode', () => {
+  test('returns upazila post offices with their full address', () => {
+    const [match] = lookupPostalCode('1340');
+
+    expect(match?.postOffice.name).toBe('Savar');
+    expect(match?.address?.district.name).toBe('Dhaka');
+  });
+
+  test('returns metropolitan post offices with their thana', () => {
+    const [match] = lookupPostalCode('১২১৬');
+
+    expect(match?.urbanAddress?.thana?.name).toBe('Mirpur');
+    expect(match?.address).toBeUndefined();
+  });
+
+  test('returns nothing for an unknown code', () => {
+    expect(lookupPostalCode('0000')).toEqual([]);
+    expect(getPostOfficeByCode('0000')).toBeUndefined();
+  });
+});
+
+describe('getPostOfficesByUpazila', () => {
+  test('holds the head post office (the bundled list has no sub offices)', () => {
+    expect(getPostOfficesByUpazila(1).map((postOffice) => postOffice.code)).toEqual(['8730']);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Postal code functions for Bangladesh address data
+ * Postal codes of districts, upazilas and unions, and the post office list
+ */
+
+import type {
+  PostOffice,
+  PostalInfo,
+  PostalCodeMatch,
+} from '../types/location.types';
+import { findBy, filterBy } from './lookup';
+import { normalizeText } from './normalize';
+import { createDivisionFunctions } from './divisions';
+import { createDistrictFunctions } from './districts';
+import { createUpazilaFunctions } from './upazilas';
+import { createUnionFunctions } from './unions';
+import { createUrbanFunctions } from './urban';
+import { freezeData } from './freeze';
+import { bundledDataset } from './dataset';
+import type { LocationDataset } from './dataset';
+
+// Static data imports (bundled for compatibility)
+import postOfficesJson from '../data/post-offices.json';
+
+const postOfficesData = freezeData(postOfficesJson as PostOffice[]);
+
+/**
+ * Build the postal code functions over a dataset (post offices are the
+ * bundled ones)
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createPostalFunctions(dataset: LocationDataset) {
+  const { getDivisionById } = createDivisionFunctions(dataset);
+  const { getDistrictById } = createDistrictFunctions(dataset);
+  const { getUpazilaById, getFullAddress } = createUpazilaFunctions(dataset);
+  const { getUnionById } = createUnionFunctions(dataset);
+  const { getFullAddressOfThana } = createUrbanFunctions(dataset);
+
+  const getUpazilaPostalCode = (upazilaId: number): string | undefined => getUpazilaById(upazilaId)?.postalCode;
+
+  return {
+    getDistrictPostalCode: (districtId: number): string | undefined => getDistrictById(districtId)?.postalCode,
+    getUpazilaPostalCode,
+    getUnionPostalCode: (unionId: number): string | undefined => {
+      const union = getUnionById(unionId);
+      if (!union) return undefined;
+      return getUpazilaPostalCode(union.upazilaId);
+    },
+    getPostalInfo: (upazilaId: number): PostalInfo | undefined => {
+      const upazila = getUpazilaById(upazilaId);
+      if (!upazila?.postalCode) return undefined;
+
+      const district = getDistrictById(upazila.districtId);
+      if (!district?.postalCode) return undefined;
+
+      return {
+        postalCode: upazila.postalCode,
+        districtRange: district.postalCode,
+      };
+    },
+    getAllPostOffices: (): Readonly<PostOffice>[] => [...postOfficesData],
+    getPostOfficeByCode: (code: string): Readonly<PostOffice> | undefined =>
+      findBy(postOfficesData, 'code', normalizeText(code)),
+    getPostOfficesByUpazila: (upazilaId: number): Readonly<PostOffice>[] =>
+      filterBy(postOfficesData, 'upazilaId', upazilaId),
+    getPostOfficesByThana: (thanaId: number): Readonly<PostOffice>[] => filterBy(postOfficesData, 'thanaId', thanaId),
+    getPostOfficesByDistrict: (districtId: number): Readonly<PostOffice>[] =>
+      filterBy(postOfficesData, 'districtId', districtId),
+    lookupPostalCode: (code: string): PostalCodeMatch[] => {
+      const normalized = normalizeText(code);
+      const matches: PostalCodeMatch[] = [];
+
+      for (const postOffice of filterBy(postOfficesData, 'code', normalized)) {
+        if (postOffice.upazilaId !== undefined) {
+          const address = getFullAddress(postOffice.upazilaId);
+          if (address) matches.push({ postOffice, address });
+          continue;
+        }
+
+        const urbanAddress = postOffice.thanaId !== undefined ? getFullAddressOfThana(postOffice.thanaId) : undefined;
+        if (urbanAddress) {
+          matches.push({ postOffice, urbanAddress });
+          continue;
+        }
+
+        const district = getDistrictById(postOffice.districtId);
+        const division = district ? getDivisionById(district.divisionId) : undefined;
+        if (district && division) matches.push({ postOffice, urbanAddress: { division, district } });
+      }
+
+      return matches;
+    },
+  };
+}
+
+const bundled = createPostalFunctions(bundledDataset);
+
+/**
+ * Get postal code range for a district
+ * @param districtId - District ID
+ * @returns Postal code range (e.g., "8700-8799") or undefined
+ */
+export function getDistrictPostalCode(districtId: number): string | undefined {
+  return bundled.getDistrictPostalCode(districtId);
+}
+
+/**
+ * Get postal code for an upazila
+ * @param upazilaId - Upazila ID
+ * @returns Specific postal code (e.g., "8730") or undefined
+ */
+export function getUpazilaPostalCode(upazilaId: number): string | undefined {
+  return bundled.getUpazilaPostalCode(upazilaId);
+}
+
+/**
+ * Get postal code for a union (via its upazila)
+ * @param unionId - Union ID
+ * @returns Postal code of the union's upazila or undefined
+ */
+export function getUnionPostalCode(unionId: number): string | undefined {
+  return bundled.getUnionPostalCode(unionId);
+}
+
+/**
+ * Get full postal information for a location
+ * @param upazilaId - Upazila ID
+ * @returns Object with upazila postal code and district postal code range
+ */
+export function getPostalInfo(upazilaId: number): PostalInfo | undefined {
+  return bundled.getPostalInfo(upazilaId);
+}
+
+/**
+ * Get all post offices
+ * @returns Array of all post offices in the dataset
+ */
+export function getAllPostOffices(): Readonly<PostOffice>[] {
+  return bundled.getAllPostOffices();
+}
+
+/**
+ * Get the first post office with a postal code
+ * (a few codes are shared; use lookupPostalCode for every candidate)
+ * @param code - 4-digit postal code
+ * @returns PostOffice or undefined
+ */
+export function getPostOfficeByCode(code: string): Readonly<PostOffice> | undefined {
+  return bundled.getPostOfficeByCode(code);
+}
+
+/**
+ * Get all post offices in an upazila
+ * @param upazilaId - Upazila ID
+ * @returns Array of post offices
+ */
+export function getPostOfficesByUpazila(upazilaId: number): Readonly<PostOffice>[] {
+  return bundled.getPostOfficesByUpazila(upazilaId);
+}
+
+/**
+ * Get all post offices in a metropolitan thana
+ * @param thanaId - Thana ID
+ * @returns Array of post offices
+ */
+export function getPostOfficesByThana(thanaId: number): Readonly<PostOffice>[] {
+  return bundled.getPostOfficesByThana(thanaId);
+}
+
+/**
+ * Get all post offices in a district (upazila and metropolitan offices)
+ * @param districtId - District ID
+ * @returns Array of post offices
+ */
+export function getPostOfficesByDistrict(districtId: number): Readonly<PostOffice>[] {
+  return bundled.getPostOfficesByDistrict(districtId);
+}
+
+/**
+ * Look up a postal code: every post office using it, with its address
+ * @param code - 4-digit postal code
+ * @returns Matching post offices with FullAddress (upazila offices) or
+ * UrbanAddress (metropolitan offices); empty when the code is unknown
+ */
+export function lookupPostalCode(code: string): PostalCodeMatch[] {
+  return bundled.lookupPostalCode(code);
+}
+
+export default {
+  getDistrictPostalCode,
+  getUpazilaPostalCode,
+  getUnionPostalCode,
+  getPostalInfo,
+  getAllPostOffices,
+  getPostOfficeByCode,
+  getPostOfficesByUpazila,
+  getPostOfficesByThana,
+  getPostOfficesByDistrict,
+  lookupPostalCode,
+};
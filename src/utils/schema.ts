@@ -0,0 +1,239 @@
+/**
+ * Address schema utilities for Bangladesh address data
+ * Builds JSON Schema for address payloads (division, district, upazila and
+ * union slugs) from the bundled data, plus the cross-field checks shared by
+ * the Zod and Valibot schemas
+ */
+
+import type { Division, District, Upazila, Union, BaseLocation } from '../types/location.types';
+import { findBySlug } from './lookup';
+import { validateAddress } from './validation';
+import type { AddressField } from './validation';
+import { freezeData } from './freeze';
+
+// Static data imports (bundled for compatibility)
+import divisionsJson from '../data/divisions.json';
+import districtsJson from '../data/districts.json';
+import upazilasJson from '../data/upazilas.json';
+import unionsJson from '../data/unions.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+const districtsData = freezeData(districtsJson as District[]);
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+const unionsData = freezeData(unionsJson as Union[]);
+
+/**
+ * Address payload, by slug (the values of the BangladeshDivision,
+ * BangladeshDistrict and BangladeshUpazila enums)
+ */
+export interface AddressPayload {
+  division: string;
+  district: string;
+  upazila: string;
+  union?: string;
+  postalCode?: string;
+}
+
+/** Field of an AddressPayload */
+export type AddressPayloadField = keyof AddressPayload;
+
+/** Language of schema titles and error messages */
+export type SchemaLanguage = 'en' | 'bn';
+
+/**
+ * Schema options interface
+ */
+export interface AddressSchemaOptions {
+  /** Require the union (default false) */
+  requireUnion?: boolean;
+  /** Require the postal code (default false) */
+  requirePostalCode?: boolean;
+  /** Language of titles and error messages (default 'en') */
+  language?: SchemaLanguage;
+}
+
+/**
+ * Cross-field problem found in an address payload
+ */
+export interface AddressSchemaIssue {
+  field: AddressPayloadField;
+  message: string;
+}
+
+/**
+ * Slugs allowed for each level, in data order
+ */
+export interface AddressEnumValues {
+  division: string[];
+  district: string[];
+  upazila: string[];
+  union: string[];
+}
+
+/** JSON Schema (draft 2020-12) document */
+export type JsonSchema = Record<string, unknown>;
+
+export const defaultAddressSchemaOptions: Required<AddressSchemaOptions> = {
+  requireUnion: false,
+  requirePostalCode: false,
+  language: 'en',
+};
+
+/** Postal code format: 4 digits */
+export const POSTAL_CODE_PATTERN = '^\\d{4}$';
+
+const FIELD_TITLES: Record<AddressPayloadField, Record<SchemaLanguage, string>> = {
+  division: { en: 'Division', bn: 'বিভাগ' },
+  district: { en: 'District', bn: 'জেলা' },
+  upazila: { en: 'Upazila', bn: 'উপজেলা' },
+  union: { en: 'Union', bn: 'ইউনিয়ন' },
+  postalCode: { en: 'Postal code', bn: 'পোস্ট কোড' },
+};
+
+const PAYLOAD_FIELDS: Record<AddressField, AddressPayloadField> = {
+  divisionId: 'division',
+  districtId: 'district',
+  upazilaId: 'upazila',
+  unionId: 'union',
+  postalCode: 'postalCode',
+};
+
+let enumValues: AddressEnumValues | undefined;
+
+/**
+ * Get the slugs allowed for each level, read from the bundled data
+ * @returns Division, district, upazila and union slugs
+ */
+export function getAddressEnumValues(): AddressEnumValues {
+  if (!enumValues) {
+    enumValues = {
+      division: divisionsData.map((d) => d.slug),
+      district: districtsData.map((d) => d.slug),
+      upazila: upazilasData.map((u) => u.slug),
+      union: unionsData.map((u) => u.slug),
+    };
+  }
+  return enumValues;
+}
+
+/**
+ * Error message for a value that is not one of the allowed slugs
+ * @param field - Payload field
+ * @param language - Message language
+ * @returns Message
+ */
+export function getInvalidValueMessage(field: AddressPayloadField, language: SchemaLanguage): string {
+  const title = FIELD_TITLES[field][language];
+  if (field === 'postalCode') {
+    return language === 'bn' ? `${title} ৪ অঙ্কের হতে হবে` : `${title} must be 4 digits`;
+  }
+  return language === 'bn' ? `সঠিক ${title} নির্বাচন করুন` : `Select a valid ${title.toLowerCase()}`;
+}
+
+/**
+ * Id of the location with a slug, if there is one
+ */
+function idOf(data: readonly BaseLocation[], slug: string | undefined): number | undefined {
+  return slug === undefined ? undefined : findBySlug(data, slug)?.id;
+}
+
+/**
+ * Check that each level of a payload belongs to the level above and that
+ * the postal code fits the district. The values themselves are checked by
+ * the schema, so unknown slugs are ignored here.
+ * @param payload - Address payload
+ * @param language - Message language (default 'en')
+ * @returns Issues, reported on the child field
+ */
+export function checkAddressPayload(
+  payload: Partial<AddressPayload>,
+  language: SchemaLanguage = defaultAddressSchemaOptions.language
+): AddressSchemaIssue[] {
+  const { errors } = validateAddress(
+    {
+      divisionId: idOf(divisionsData, payload.division),
+      districtId: idOf(districtsData, payload.district),
+      upazilaId: idOf(upazilasData, payload.upazila),
+      unionId: idOf(unionsData, payload.union),
+      postalCode: payload.postalCode,
+    },
+    { required: [] }
+  );
+
+  return errors
+    .filter((error) => error.code === 'PARENT_MISMATCH' || error.code === 'POSTAL_CODE_MISMATCH')
+    .map((error) => ({
+      field: PAYLOAD_FIELDS[error.field],
+      message: language === 'bn' ? error.bnMessage : error.message,
+    }));
+}
+
+/**
+ * `if` the parent has a value `then` the child must be one of its children
+ */
+function childRule<P extends { id: number; slug: string }, C extends { slug: string }>(
+  parentField: AddressPayloadField,
+  childField: AddressPayloadField,
+  parents: P[],
+  children: C[],
+  parentIdOf: (child: C) => number
+): JsonSchema[] {
+  return parents.map((parent) => ({
+    if: { properties: { [parentField]: { const: parent.slug } }, required: [parentField] },
+    then: {
+      properties: {
+        [childField]: {
+          enum: children.filter((child) => parentIdOf(child) === parent.id).map((c) => c.slug),
+        },
+      },
+    },
+  }));
+}
+
+/**
+ * Create a JSON Schema for address payloads. Allowed values come from the
+ * bundled data, and `allOf` rules require each level to belong to the
+ * level above. The postal code is only checked for its format.
+ * @param options - Require union/postal code, title language
+ * @returns JSON Schema (draft 2020-12)
+ */
+export function createAddressJsonSchema(options?: AddressSchemaOptions): JsonSchema {
+  const opts = { ...defaultAddressSchemaOptions, ...options };
+  const values = getAddressEnumValues();
+
+  const property = (field: AddressPayloadField, schema: JsonSchema): JsonSchema => ({
+    title: FIELD_TITLES[field][opts.language],
+    ...schema,
+  });
+
+  const required: AddressPayloadField[] = ['division', 'district', 'upazila'];
+  if (opts.requireUnion) required.push('union');
+  if (opts.requirePostalCode) required.push('postalCode');
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: opts.language === 'bn' ? 'বাংলাদেশের ঠিকানা' : 'Bangladesh address',
+    type: 'object',
+    properties: {
+      division: property('division', { type: 'string', enum: values.division }),
+      district: property('district', { type: 'string', enum: values.district }),
+      upazila: property('upazila', { type: 'string', enum: values.upazila }),
+      union: property('union', { type: 'string', enum: values.union }),
+      postalCode: property('postalCode', { type: 'string', pattern: POSTAL_CODE_PATTERN }),
+    },
+    required,
+    additionalProperties: false,
+    allOf: [
+      ...childRule('division', 'district', divisionsData, districtsData, (d) => d.divisionId),
+      ...childRule('district', 'upazila', districtsData, upazilasData, (u) => u.districtId),
+      ...childRule('upazila', 'union', upazilasData, unionsData, (u) => u.upazilaId),
+    ],
+  };
+}
+
+export default {
+  getAddressEnumValues,
+  getInvalidValueMessage,
+  checkAddressPayload,
+  createAddressJsonSchema,
+};
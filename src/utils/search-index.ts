@@ -0,0 +1,379 @@
+/**
+ * In-memory search index for Bangladesh address data
+ * Built lazily (per location type) on first use, so search only has to
+ * score records that can actually reach the requested threshold
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  CityCorporation,
+  Municipality,
+  Ward,
+  Thana,
+  AnyLocation,
+  LocationType,
+  LocationAlias,
+} from '../types/location.types';
+import { toPhoneticKey } from './transliteration';
+import { normalizeName } from './normalize';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+// Static data imports (bundled for compatibility)
+import divisionsJson from '../data/divisions.json';
+import districtsJson from '../data/districts.json';
+import upazilasJson from '../data/upazilas.json';
+import unionsJson from '../data/unions.json';
+import cityCorporationsJson from '../data/city-corporations.json';
+import municipalitiesJson from '../data/municipalities.json';
+import wardsJson from '../data/wards.json';
+import thanasJson from '../data/thanas.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+const districtsData = freezeData(districtsJson as District[]);
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+const unionsData = freezeData(unionsJson as Union[]);
+const cityCorporationsData = freezeData(cityCorporationsJson as CityCorporation[]);
+const municipalitiesData = freezeData(municipalitiesJson as Municipality[]);
+const wardsData = freezeData(wardsJson as Ward[]);
+const thanasData = freezeData(thanasJson as Thana[]);
+
+/** n-gram size used by the substring and edit-distance filters */
+const GRAM_SIZE = 3;
+
+/**
+ * Index over a flat list of keys, `fieldsPerItem` consecutive keys per item
+ */
+export interface KeyIndex {
+  /** Number of indexed items */
+  itemCount: number;
+  /** Keys per item; key `i * fieldsPerItem + f` is field `f` of item `i` */
+  fieldsPerItem: number;
+  /** Indexed (lowercased) keys */
+  keys: string[];
+  /** n-gram -> keys containing it (once per occurrence) */
+  grams: Map<string, number[]>;
+  /** Key length -> keys of that length */
+  lengths: Map<number, number[]>;
+  /** Keys sorted by value, for prefix lookups */
+  sorted: number[];
+}
+
+interface TypeIndex {
+  /** Items in original data order */
+  items: AnyLocation[];
+  /** Lowercased [name, bnName, slug] per item */
+  fields: [string, string, string][];
+  /** Index over the lowercased name, bnName and slug of every item */
+  text: KeyIndex;
+  /** Every alias name, one entry per English or Bengali alias string */
+  aliases: AliasEntry[];
+  /** Index over the lowercased alias strings, one key per entry */
+  aliasText: KeyIndex;
+}
+
+/**
+ * A single alias string and the item it belongs to
+ */
+export interface AliasEntry {
+  /** Item position in original data order */
+  position: number;
+  alias: LocationAlias;
+  /** Which side of the alias this entry is */
+  field: 'name' | 'bnName';
+}
+
+const dataByType: Record<LocationType, AnyLocation[]> = {
+  division: divisionsData,
+  district: districtsData,
+  upazila: upazilasData,
+  union: unionsData,
+  cityCorporation: cityCorporationsData,
+  municipality: municipalitiesData,
+  ward: wardsData,
+  thana: thanasData,
+};
+
+// Indexes per dataset array, so address books get their own
+const indexes = new WeakMap<readonly AnyLocation[], TypeIndex>();
+const phoneticIndexes = new WeakMap<readonly AnyLocation[], KeyIndex>();
+const nameIndexes = new WeakMap<readonly AnyLocation[], Map<string, number[]>>();
+
+/**
+ * Split a string into overlapping n-grams
+ */
+function toGrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + GRAM_SIZE <= value.length; i++) {
+    grams.push(value.slice(i, i + GRAM_SIZE));
+  }
+  return grams;
+}
+
+/**
+ * Build an index over a flat list of keys
+ */
+function buildKeyIndex(keys: string[], fieldsPerItem: number): KeyIndex {
+  const grams = new Map<string, number[]>();
+  const lengths = new Map<number, number[]>();
+
+  keys.forEach((value, key) => {
+    for (const gram of toGrams(value)) {
+      const postings = grams.get(gram);
+      if (postings) postings.push(key);
+      else grams.set(gram, [key]);
+    }
+
+    const bucket = lengths.get(value.length);
+    if (bucket) bucket.push(key);
+    else lengths.set(value.length, [key]);
+  });
+
+  const sorted = keys
+    .map((_, key) => key)
+    .sort((a, b) => {
+      const x = keys[a] as string;
+      const y = keys[b] as string;
+      return x < y ? -1 : x > y ? 1 : 0;
+    });
+
+  return {
+    itemCount: keys.length / fieldsPerItem,
+    fieldsPerItem,
+    keys,
+    grams,
+    lengths,
+    sorted,
+  };
+}
+
+/**
+ * Get (building on first use) the index for a location type
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function getTypeIndex(dataset: LocationDataset, type: LocationType): TypeIndex {
+  const items = dataOf(dataset, type, dataByType[type]);
+  let index = indexes.get(items);
+  if (!index) {
+    const fields = items.map(
+      (item): [string, string, string] => [
+        normalizeName(item.name),
+        normalizeName(item.bnName),
+        normalizeName(item.slug),
+      ]
+    );
+    const aliases: AliasEntry[] = [];
+    items.forEach((item, position) => {
+      for (const alias of item.aliases ?? []) {
+        if (alias.name) aliases.push({ position, alias, field: 'name' });
+        if (alias.bnName) aliases.push({ position, alias, field: 'bnName' });
+      }
+    });
+    const aliasKeys = aliases.map(({ alias, field }) => normalizeName(alias[field] as string));
+
+    index = {
+      items,
+      fields,
+      text: buildKeyIndex(fields.flat(), 3),
+      aliases,
+      aliasText: buildKeyIndex(aliasKeys, 1),
+    };
+    indexes.set(items, index);
+  }
+  return index;
+}
+
+/**
+ * Get (building on first use) the phonetic index for a location type:
+ * two keys per item, the phonetic keys of its name and bnName
+ */
+export function getPhoneticIndex(dataset: LocationDataset, type: LocationType): KeyIndex {
+  const items = dataOf(dataset, type, dataByType[type]);
+  let index = phoneticIndexes.get(items);
+  if (!index) {
+    const keys = items.flatMap((item) => [
+      toPhoneticKey(item.name),
+      toPhoneticKey(item.bnName),
+    ]);
+    index = buildKeyIndex(keys, 2);
+    phoneticIndexes.set(items, index);
+  }
+  return index;
+}
+
+/**
+ * Get (building on first use) the exact-name lookup for a location type:
+ * normalized name, Bengali name, slug or alias -> item positions
+ */
+export function getNameIndex(dataset: LocationDataset, type: LocationType): Map<string, number[]> {
+  const { items, fields, aliases, aliasText } = getTypeIndex(dataset, type);
+  let index = nameIndexes.get(items);
+  if (!index) {
+    const names = new Map<string, number[]>();
+    const add = (key: string, position: number) => {
+      const positions = names.get(key);
+      if (!positions) names.set(key, [position]);
+      else if (!positions.includes(position)) positions.push(position);
+    };
+
+    fields.forEach((keys, position) => keys.forEach((key) => add(key, position)));
+    aliases.forEach(({ position }, entry) => add(aliasText.keys[entry] as string, position));
+    index = names;
+    nameIndexes.set(items, index);
+  }
+  return index;
+}
+
+/**
+ * Convert keys to unique item positions in original data order
+ */
+function toItemPositions(index: KeyIndex, keys: number[]): number[] {
+  const marked = new Uint8Array(index.itemCount);
+  for (const key of keys) {
+    marked[Math.floor(key / index.fieldsPerItem)] = 1;
+  }
+
+  const positions: number[] = [];
+  for (let i = 0; i < marked.length; i++) {
+    if (marked[i]) positions.push(i);
+  }
+  return positions;
+}
+
+/**
+ * Find items with a key containing the (lowercased) query
+ * @returns Item positions in original data order
+ */
+export function findSubstringMatches(index: KeyIndex, query: string): number[] {
+  const matches: number[] = [];
+
+  if (query.length < GRAM_SIZE) {
+    index.keys.forEach((key, i) => {
+      if (key.includes(query)) matches.push(i);
+    });
+    return toItemPositions(index, matches);
+  }
+
+  // Every gram of the query must occur in the key; scan the rarest posting list
+  let rarest: number[] | undefined;
+  for (const gram of toGrams(query)) {
+    const postings = index.grams.get(gram);
+    if (!postings) return [];
+    if (!rarest || postings.length < rarest.length) rarest = postings;
+  }
+
+  for (const key of rarest ?? []) {
+    if ((index.keys[key] as string).includes(query)) matches.push(key);
+  }
+  return toItemPositions(index, matches);
+}
+
+/**
+ * Find items with a key that could be within edit distance of the
+ * (lowercased) query for the given similarity threshold, using length
+ * and shared n-gram filters. May return false positives, never misses.
+ * With `transpositions`, swapping two adjacent characters counts as one edit.
+ * @returns Item positions, closest key length first (these tend to score
+ * highest), each item once
+ */
+export function findEditDistanceCandidates(
+  index: KeyIndex,
+  query: string,
+  threshold: number,
+  transpositions = false
+): number[] {
+  // similarity = 1 - distance / maxLen, and distance >= |len(query) - len(key)|
+  const minLength = threshold > 0 ? Math.floor(query.length * threshold) : 0;
+  const maxLength = threshold > 0 ? Math.ceil(query.length / threshold) : Infinity;
+
+  // Shared gram occurrences per key (counted with multiplicity)
+  const shared = new Map<number, number>();
+  for (const gram of toGrams(query)) {
+    for (const key of index.grams.get(gram) ?? []) {
+      shared.set(key, (shared.get(key) ?? 0) + 1);
+    }
+  }
+
+  const buckets = [...index.lengths.keys()]
+    .filter((length) => length >= minLength && length <= maxLength)
+    .sort((a, b) => Math.abs(a - query.length) - Math.abs(b - query.length));
+
+  const seen = new Uint8Array(index.itemCount);
+  const candidates: number[] = [];
+  // Grams one edit can break (a transposition spans one more)
+  const gramsPerEdit = transpositions ? GRAM_SIZE + 1 : GRAM_SIZE;
+
+  for (const length of buckets) {
+    // q-gram lemma: distance <= k implies at least
+    // maxLen - GRAM_SIZE + 1 - k * gramsPerEdit shared grams
+    const maxLen = Math.max(length, query.length);
+    const maxEdits = Math.ceil((1 - threshold) * maxLen);
+    const required = maxLen - GRAM_SIZE + 1 - maxEdits * gramsPerEdit;
+
+    for (const key of index.lengths.get(length) ?? []) {
+      const position = Math.floor(key / index.fieldsPerItem);
+      if (seen[position]) continue;
+      if (required <= 0 || (shared.get(key) ?? 0) >= required) {
+        seen[position] = 1;
+        candidates.push(position);
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Find items with a key starting with the (lowercased) prefix
+ * @returns Item positions in original data order
+ */
+export function findPrefixMatches(index: KeyIndex, prefix: string): number[] {
+  const { keys, sorted } = index;
+
+  // Binary search for the first key >= prefix
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if ((keys[sorted[mid] as number] as string) < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches: number[] = [];
+  for (let i = low; i < sorted.length; i++) {
+    const key = sorted[i] as number;
+    if (!(keys[key] as string).startsWith(prefix)) break;
+    matches.push(key);
+  }
+  return toItemPositions(index, matches);
+}
+
+/**
+ * Build the search index functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createSearchIndexFunctions(dataset: LocationDataset) {
+  return {
+    warmSearchIndex: (options?: { phonetic?: boolean }): void => {
+      for (const type of Object.keys(dataByType) as LocationType[]) {
+        getTypeIndex(dataset, type);
+        if (options?.phonetic) getPhoneticIndex(dataset, type);
+      }
+    },
+  };
+}
+
+const bundled = createSearchIndexFunctions(bundledDataset);
+
+/**
+ * Build the indexes for all location types up front
+ * (otherwise they are built lazily on first search)
+ * @param options - Also build the phonetic indexes used by `phonetic: true`
+ */
+export function warmSearchIndex(options?: { phonetic?: boolean }): void {
+  bundled.warmSearchIndex(options);
+}
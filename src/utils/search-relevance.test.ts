@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import type { AnyLocation, LocationSearchResult, LocationType, SearchResult } from '../types/location.types';
+import { fuzzySearch } from './search';
+import fixtures from '../../scripts/fixtures/search-relevance.json';
+
+interface RelevanceFixture {
+  query: string;
+  type: LocationType;
+  slug: string;
+  rank?: number;
+  note?: string;
+}
+
+const RESULT_KEYS: Record<LocationType, keyof LocationSearchResult> = {
+  division: 'divisions',
+  district: 'districts',
+  upazila: 'upazilas',
+  union: 'unions',
+  cityCorporation: 'cityCorporations',
+  municipality: 'municipalities',
+  ward: 'wards',
+  thana: 'thanas',
+};
+
+// Ranks of every fixture are printed by `bun run relevance`
+describe('search relevance fixtures', () => {
+  test.each(fixtures as RelevanceFixture[])('fuzzySearch("$query") finds $slug', (fixture) => {
+    const result = fuzzySearch(fixture.query, { types: [fixture.type] });
+    const results = result[RESULT_KEYS[fixture.type]] as SearchResult<AnyLocation>[];
+    const rank = results.findIndex((r) => r.item.slug === fixture.slug) + 1;
+
+    expect(rank).toBeGreaterThan(0);
+    expect(rank).toBeLessThanOrEqual(fixture.rank ?? 1);
+  });
+});
+
+describe('scoring options', () => {
+  const dhakaScore = (options: Parameters<typeof fuzzySearch>[1]) =>
+    fuzzySearch('Dahka', { types: ['district'], ...options }).districts.find((r) => r.item.slug === 'dhaka')?.score;
+
+  test('damerau counts swapped neighbours as one edit', () => {
+    expect(dhakaScore({ scoring: 'damerau' })).toBeGreaterThan(dhakaScore({ scoring: 'levenshtein' }) as number);
+  });
+
+  test('maxEdits drops matches needing more edits', () => {
+    expect(dhakaScore({ scoring: 'damerau', maxEdits: 1 })).toBeDefined();
+    expect(dhakaScore({ scoring: 'levenshtein', maxEdits: 1 })).toBeUndefined();
+  });
+
+  test('tokenMatch finds the words of a name in any order', () => {
+    const [first] = fuzzySearch('sadar barguna', { types: ['upazila'] }).upazilas;
+
+    expect(first?.item.name).toBe('Barguna Sadar');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { autocomplete, search, searchAll, searchUpazilas } from './search';
+import { getDistrictBySlug } from './districts';
+import { getUpazilaById } from './upazilas';
+import { getUnionById } from './unions';
+
+const barguna = getDistrictBySlug('barguna')?.id as number;
+
+describe('within', () => {
+  test('only returns locations inside the scope', () => {
+    const upazilas = searchUpazilas('sadar', { within: { districtId: barguna }, limit: 50 });
+
+    expect(upazilas.map((r) => r.item.name)).toEqual(['Barguna Sadar']);
+  });
+
+  test('keeps unions of upazilas inside the scope', () => {
+    const { unions } = search('a', { types: ['union'], within: { upazilaId: 1 }, limit: 50 });
+
+    expect(unions.length).toBeGreaterThan(0);
+    expect(unions.every((r) => getUnionById(r.item.id)?.upazilaId === 1)).toBe(true);
+  });
+
+  test('applies the scope before the limit', () => {
+    const [first] = searchAll('sadar', { within: { districtId: barguna }, limit: 1 });
+
+    expect(first?.item.name).toBe('Barguna Sadar');
+    expect(first?.path.district?.id).toBe(barguna);
+  });
+
+  test('scopes autocomplete', () => {
+    const results = autocomplete('ba', { within: { districtId: barguna } });
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(
+      results.every((r) => r.type !== 'upazila' || getUpazilaById(r.item.id)?.districtId === barguna)
+    ).toBe(true);
+  });
+
+  test('an undefined scope searches everything', () => {
+    expect(search('dhaka', { within: undefined }).districts[0]?.item.slug).toBe('dhaka');
+    expect(searchAll('dhaka', { within: undefined })[0]?.item.slug).toBe('dhaka');
+    expect(autocomplete('dhak', { within: undefined }).length).toBeGreaterThan(0);
+  });
+
+  test('undefined options keep their defaults', () => {
+    const result = search('dhaka', { limit: undefined, threshold: undefined, types: undefined });
+
+    expect(result.districts[0]?.item.slug).toBe('dhaka');
+    expect(result.divisions[0]?.item.slug).toBe('dhaka');
+  });
+});
+
+describe('where', () => {
+  test('only returns locations it keeps', () => {
+    const { upazilas } = search('sadar', { types: ['upazila'], where: (location) => location.id === 3, limit: 50 });
+
+    expect(upazilas.map((r) => r.item.id)).toEqual([3]);
+  });
+
+  test('is applied before the limit', () => {
+    const keep = (location: { slug: string }) => location.slug.startsWith('barguna');
+    const [first] = searchAll('sadar', { where: keep, limit: 1 });
+
+    expect(first?.item.name).toBe('Barguna Sadar');
+  });
+
+  test('combines with within', () => {
+    const results = autocomplete('b', {
+      types: ['upazila'],
+      within: { districtId: barguna },
+      where: (location) => location.name.startsWith('Be'),
+    });
+
+    expect(results.map((r) => r.name)).toEqual(['Betagi']);
+  });
+
+  test('an undefined filter keeps every location', () => {
+    expect(search('dhaka', { where: undefined }).districts[0]?.item.slug).toBe('dhaka');
+    expect(searchAll('dhaka', { where: undefined })[0]?.item.slug).toBe('dhaka');
+    expect(autocomplete('dhak', { where: undefined }).length).toBeGreaterThan(0);
+  });
+});
@@ -8,22 +8,34 @@ import type {
   District,
   Upazila,
   Union,
+  CityCorporation,
+  Municipality,
+  Ward,
+  Thana,
   SearchResult,
   LocationSearchResult,
+  RankedSearchResult,
+  LocationPath,
+  AutocompleteResult,
+  MatchKind,
   AnyLocation,
   LocationType,
 } from '../types/location.types';
 
-// Static data imports (bundled for compatibility)
-import divisionsJson from '../data/divisions.json';
-import districtsJson from '../data/districts.json';
-import upazilasJson from '../data/upazilas.json';
-import unionsJson from '../data/unions.json';
-
-const divisionsData = divisionsJson as Division[];
-const districtsData = districtsJson as District[];
-const upazilasData = upazilasJson as Upazila[];
-const unionsData = unionsJson as Union[];
+import { toPhoneticKey } from './transliteration';
+import { normalizeName, normalizeText } from './normalize';
+import { findHighlights } from './highlight';
+import { findById } from './lookup';
+import type { AliasEntry, KeyIndex } from './search-index';
+import { bundledDataset } from './dataset';
+import type { LocationDataset } from './dataset';
+import {
+  getTypeIndex,
+  getPhoneticIndex,
+  findSubstringMatches,
+  findEditDistanceCandidates,
+  findPrefixMatches,
+} from './search-index';
 
 /**
  * Search options interface
@@ -41,10 +53,66 @@ export interface SearchOptions {
   threshold?: number;
   /** Case sensitive search */
   caseSensitive?: boolean;
-  /** Location types to search */
+  /**
+   * Location types to search (wards are only searched when listed,
+   * since ward names repeat across every city corporation)
+   */
   types?: LocationType[];
+  /**
+   * Also match by pronunciation across scripts and spelling variants
+   * ("Komilla" finds Cumilla, "Jessore" finds Jashore, Latin finds Bengali)
+   */
+  phonetic?: boolean;
+  /**
+   * Only return locations inside this division, district or upazila
+   * (the location itself included); applied before ranking and `limit`
+   */
+  within?: SearchScope;
+  /**
+   * How fuzzy (non-substring) matches are scored (default 'levenshtein'):
+   * - `levenshtein`: 1 - edits / length
+   * - `damerau`: as levenshtein, but two swapped neighbours ("Dahka") are one edit
+   * - `jaroWinkler`: Jaro-Winkler similarity, which favours a shared start;
+   *   it has no edit bound, so every record is scored
+   */
+  scoring?: ScoringStrategy;
+  /** Maximum edits (typos) of a fuzzy match with levenshtein or damerau scoring */
+  maxEdits?: number;
+  /**
+   * How far a prefix match ranks above other substring matches, as a share
+   * of the gap to an exact match (0-1, default 0.5)
+   */
+  prefixBoost?: number;
+  /**
+   * Match the words of a multi-word query one by one, in any order and each
+   * with typo tolerance ("sadar barguna" finds Barguna Sadar). One of the
+   * words must occur as typed. Default true.
+   */
+  tokenMatch?: boolean;
+  /**
+   * Only return locations this returns true for, e.g. by their metadata
+   * (`(location) => location.meta?.courierCovered === true`); applied
+   * before ranking and `limit`
+   */
+  where?: (location: AnyLocation) => boolean;
 }
 
+/** Similarity measure for fuzzy matches, see SearchOptions.scoring */
+export type ScoringStrategy = 'levenshtein' | 'damerau' | 'jaroWinkler';
+
+/**
+ * Parent location a search is limited to; when several ids are given a
+ * location must be inside all of them
+ */
+export interface SearchScope {
+  divisionId?: number;
+  districtId?: number;
+  upazilaId?: number;
+}
+
+/** Default `where`: no filter */
+const everyLocation = (): boolean => true;
+
 const defaultSearchOptions: Required<SearchOptions> = {
   includeEnglish: true,
   includeBengali: true,
@@ -52,101 +120,334 @@ const defaultSearchOptions: Required<SearchOptions> = {
   limit: 10,
   threshold: 0.3,
   caseSensitive: false,
-  types: ['division', 'district', 'upazila', 'union'],
+  types: ['division', 'district', 'upazila', 'union', 'cityCorporation', 'municipality', 'thana'],
+  phonetic: false,
+  within: {},
+  scoring: 'levenshtein',
+  maxEdits: Infinity,
+  prefixBoost: 0.5,
+  tokenMatch: true,
+  where: everyLocation,
 };
 
+/** Options that affect how a single string is scored */
+type ScoringOptions = Pick<Required<SearchOptions>, 'scoring' | 'maxEdits' | 'prefixBoost' | 'tokenMatch'>;
+
+/** Word matches score at most this, so names typed in order rank first */
+const TOKEN_WEIGHT = 0.95;
+
+// Word separators in names and slugs
+const TOKEN_SEPARATOR = /[\s_-]+/;
+
+/** Phonetic matches score at most this, so spelling-exact matches rank first */
+const PHONETIC_WEIGHT = 0.9;
+
+/** Rank of each level in searchAll ties: higher levels first */
+const LEVEL_RANK: Record<LocationType, number> = {
+  division: 0,
+  district: 1,
+  cityCorporation: 2,
+  upazila: 2,
+  municipality: 3,
+  thana: 3,
+  union: 4,
+  ward: 4,
+};
+
+/** LocationSearchResult bucket of each location type */
+const RESULT_KEYS: Record<LocationType, keyof LocationSearchResult> = {
+  division: 'divisions',
+  district: 'districts',
+  upazila: 'upazilas',
+  union: 'unions',
+  cityCorporation: 'cityCorporations',
+  municipality: 'municipalities',
+  ward: 'wards',
+  thana: 'thanas',
+};
+
+/**
+ * Scored match before it is explained; phonetic and alias matches set
+ * their kind and text when they are found
+ */
+type ScoredMatch<T> = Omit<SearchResult<T>, 'matchedText' | 'matchKind' | 'highlights'> &
+  Partial<Pick<SearchResult<T>, 'matchedText' | 'matchKind'>>;
+
+// Reusable rows for editDistance (avoids allocating a matrix per call)
+let prevPrevRow = new Int32Array(64);
+let prevRow = new Int32Array(64);
+let currRow = new Int32Array(64);
+
 /**
- * Calculate similarity score between two strings using Levenshtein distance
+ * Calculate the Levenshtein distance between two strings, row by row; with
+ * `transpositions`, the optimal string alignment (restricted Damerau)
+ * distance, where swapping two neighbours is one edit.
+ * Only cells within maxDistance of the diagonal are computed; returns
+ * maxDistance + 1 as soon as the distance is known to exceed it.
  */
-function levenshteinDistance(str1: string, str2: string): number {
+function editDistance(str1: string, str2: string, maxDistance = Infinity, transpositions = false): number {
   const m = str1.length;
   const n = str2.length;
 
   if (m === 0) return n;
   if (n === 0) return m;
+  if (Math.abs(m - n) > maxDistance) return maxDistance + 1;
 
-  // Create a 2D array initialized with zeros
-  const dp: number[][] = new Array(m + 1);
-  for (let i = 0; i <= m; i++) {
-    dp[i] = new Array(n + 1).fill(0) as number[];
-  }
+  const k = Math.min(maxDistance, Math.max(m, n));
 
-  // Initialize first column and first row
-  for (let i = 0; i <= m; i++) {
-    (dp[i] as number[])[0] = i;
+  if (prevRow.length <= n + 1) {
+    prevPrevRow = new Int32Array(n + 2);
+    prevRow = new Int32Array(n + 2);
+    currRow = new Int32Array(n + 2);
   }
+
   for (let j = 0; j <= n; j++) {
-    (dp[0] as number[])[j] = j;
+    prevRow[j] = j;
   }
 
-  // Fill in the rest of the matrix
   for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      const row = dp[i] as number[];
-      const prevRow = dp[i - 1] as number[];
-      if (str1[i - 1] === str2[j - 1]) {
-        row[j] = prevRow[j - 1] as number;
-      } else {
-        row[j] = Math.min(
-          (prevRow[j - 1] as number) + 1, // substitution
-          (prevRow[j] as number) + 1, // deletion
-          (row[j - 1] as number) + 1 // insertion
-        );
+    const from = Math.max(1, i - k);
+    const to = Math.min(n, i + k);
+
+    // Cells left and right of the band count as "too far"
+    currRow[from - 1] = from === 1 ? i : k + 1;
+    if (to < n) currRow[to + 1] = k + 1;
+
+    let rowMin = currRow[from - 1] as number;
+    const c1 = str1.charCodeAt(i - 1);
+
+    for (let j = from; j <= to; j++) {
+      let value =
+        c1 === str2.charCodeAt(j - 1)
+          ? (prevRow[j - 1] as number)
+          : Math.min(
+              (prevRow[j - 1] as number) + 1, // substitution
+              (prevRow[j] as number) + 1, // deletion
+              (currRow[j - 1] as number) + 1 // insertion
+            );
+      if (
+        transpositions &&
+        i > 1 &&
+        j > 1 &&
+        c1 === str2.charCodeAt(j - 2) &&
+        str1.charCodeAt(i - 2) === str2.charCodeAt(j - 1)
+      ) {
+        value = Math.min(value, (prevPrevRow[j - 2] as number) + 1); // transposition
       }
+      currRow[j] = value;
+      if (value < rowMin) rowMin = value;
     }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    const swap = prevPrevRow;
+    prevPrevRow = prevRow;
+    prevRow = currRow;
+    currRow = swap;
   }
 
-  return (dp[m] as number[])[n] as number;
+  return prevRow[n] as number;
 }
 
+// Character counts of the last query, for the character-bag filter
+const queryCounts = new Int16Array(256);
+const targetCounts = new Int16Array(256);
+let countedQuery: string | null = null;
+
 /**
- * Calculate similarity score (0-1) between two strings
+ * Lower bound of the edit distance: every character that the two strings
+ * do not have in common needs at least one edit (a transposition needs none).
+ * Character codes are folded into 256 buckets, which can only lower the bound.
  */
-function calculateSimilarity(query: string, target: string, caseSensitive: boolean): number {
-  const q = caseSensitive ? query : query.toLowerCase();
-  const t = caseSensitive ? target : target.toLowerCase();
+function characterBagDistance(query: string, target: string): number {
+  if (countedQuery !== query) {
+    queryCounts.fill(0);
+    for (let i = 0; i < query.length; i++) {
+      (queryCounts[query.charCodeAt(i) & 0xff] as number)++;
+    }
+    countedQuery = query;
+  }
 
-  // Exact match
-  if (q === t) return 1;
+  let shared = 0;
+  for (let i = 0; i < target.length; i++) {
+    const bucket = target.charCodeAt(i) & 0xff;
+    if ((targetCounts[bucket] as number) < (queryCounts[bucket] as number)) shared++;
+    (targetCounts[bucket] as number)++;
+  }
+  for (let i = 0; i < target.length; i++) {
+    targetCounts[target.charCodeAt(i) & 0xff] = 0;
+  }
 
-  // Contains match
-  if (t.includes(q)) {
-    return 0.8 + (q.length / t.length) * 0.2;
+  return Math.max(query.length, target.length) - shared;
+}
+
+/**
+ * Jaro-Winkler similarity (0-1): characters in common within a window,
+ * penalised for transpositions, with a bonus for a shared start of up to
+ * 4 characters
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Uint8Array(a.length);
+  const bMatched = new Uint8Array(b.length);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const to = Math.min(b.length - 1, i + window);
+    for (let j = Math.max(0, i - window); j <= to; j++) {
+      if (bMatched[j] || a.charCodeAt(i) !== b.charCodeAt(j)) continue;
+      aMatched[i] = 1;
+      bMatched[j] = 1;
+      matches++;
+      break;
+    }
   }
+  if (matches === 0) return 0;
 
-  // Starts with match
-  if (t.startsWith(q)) {
-    return 0.9;
+  // Matched characters that appear in a different order
+  let outOfOrder = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a.charCodeAt(i) !== b.charCodeAt(j)) outOfOrder++;
+    j++;
   }
 
-  // Levenshtein-based similarity
-  const distance = levenshteinDistance(q, t);
+  const jaro = (matches / a.length + matches / b.length + (matches - outOfOrder / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two strings that do not contain one another
+ */
+function fuzzySimilarity(q: string, t: string, threshold: number, scoring: ScoringOptions): number {
+  if (scoring.scoring === 'jaroWinkler') return jaroWinkler(q, t);
+
   const maxLen = Math.max(q.length, t.length);
+  const maxEdits = Math.min(scoring.maxEdits, Math.ceil((1 - threshold) * maxLen));
+  if (characterBagDistance(q, t) > maxEdits) return 0;
+  const distance = editDistance(q, t, maxEdits, scoring.scoring === 'damerau');
+  if (distance > maxEdits) return 0;
   return Math.max(0, 1 - distance / maxLen);
 }
 
+/**
+ * Similarity of a multi-word query matched word by word: each query word
+ * takes its best target word, weighted by length, scaled by how much of
+ * the target the query words cover. 0 unless one query word occurs as typed.
+ */
+function tokenSimilarity(q: string, t: string, scoring: ScoringOptions): number {
+  const queryTokens = q.split(' ').filter(Boolean);
+  if (!queryTokens.some((token) => t.includes(token))) return 0;
+
+  const targetTokens = t.split(TOKEN_SEPARATOR).filter(Boolean);
+  const wordScoring = { ...scoring, tokenMatch: false };
+  const covered = new Set<string>();
+  let weighted = 0;
+  let queryLength = 0;
+
+  for (const token of queryTokens) {
+    let best = 0;
+    let bestTarget: string | undefined;
+    for (const target of targetTokens) {
+      // Words are short, and a weak word can still be part of a strong match
+      const score = calculateSimilarity(token, target, 0, wordScoring);
+      if (score > best) {
+        best = score;
+        bestTarget = target;
+      }
+    }
+    if (bestTarget !== undefined) covered.add(bestTarget);
+    weighted += best * token.length;
+    queryLength += token.length;
+  }
+
+  const targetLength = targetTokens.reduce((sum, token) => sum + token.length, 0);
+  const coveredLength = [...covered].reduce((sum, token) => sum + token.length, 0);
+  return TOKEN_WEIGHT * (weighted / queryLength) * (0.8 + 0.2 * (coveredLength / targetLength));
+}
+
+/**
+ * Calculate similarity score (0-1) between two strings, already lowercased
+ * unless the search is case sensitive: 1 for an exact match, 0.8-1 when
+ * the target contains the query (boosted when it starts with it), else the
+ * fuzzy score of the scoring strategy or the word-by-word score.
+ * Scores that cannot reach the threshold may be reported as 0.
+ */
+function calculateSimilarity(
+  q: string,
+  t: string,
+  threshold = 0,
+  scoring: ScoringOptions = defaultSearchOptions
+): number {
+  // Exact match
+  if (q === t) return 1;
+
+  // Prefix or substring match
+  const at = t.indexOf(q);
+  if (at >= 0) {
+    const score = 0.8 + (q.length / t.length) * 0.2;
+    return at === 0 ? score + (1 - score) * scoring.prefixBoost : score;
+  }
+
+  const fuzzy = fuzzySimilarity(q, t, threshold, scoring);
+  const words = scoring.tokenMatch && q.includes(' ') ? tokenSimilarity(q, t, scoring) : 0;
+  return Math.max(fuzzy, words);
+}
+
+/**
+ * Records worth a fuzzy score: edit-distance candidates (every record for
+ * Jaro-Winkler, which has no edit bound) and, for multi-word queries with
+ * token matching, the records containing one of the words
+ */
+function findFuzzyCandidates(
+  index: KeyIndex,
+  query: string,
+  threshold: number,
+  scoring: ScoringOptions
+): number[] {
+  const candidates =
+    scoring.scoring === 'jaroWinkler'
+      ? findEditDistanceCandidates(index, query, 0)
+      : findEditDistanceCandidates(index, query, threshold, scoring.scoring === 'damerau');
+  if (!scoring.tokenMatch || !query.includes(' ')) return candidates;
+
+  const tokens = query.split(' ').filter(Boolean);
+  return [...new Set([...candidates, ...tokens.flatMap((token) => findSubstringMatches(index, token))])];
+}
+
 /**
  * Search in a single location item
  */
 function searchInItem<T extends AnyLocation>(
   item: T,
   query: string,
-  options: Required<SearchOptions>
-): SearchResult<T> | null {
+  options: Required<SearchOptions>,
+  lowered?: readonly [string, string, string]
+): ScoredMatch<T> | null {
   const scores: { score: number; field: 'name' | 'bnName' | 'slug' }[] = [];
+  const { caseSensitive, threshold } = options;
+  const q = caseSensitive ? query : query.toLowerCase();
+  const [name, bnName, slug] = caseSensitive
+    ? [item.name, item.bnName, item.slug]
+    : lowered ?? [normalizeName(item.name), normalizeName(item.bnName), normalizeName(item.slug)];
 
   if (options.includeEnglish) {
-    const score = calculateSimilarity(query, item.name, options.caseSensitive);
+    const score = calculateSimilarity(q, name, threshold, options);
     scores.push({ score, field: 'name' });
   }
 
   if (options.includeBengali) {
-    const score = calculateSimilarity(query, item.bnName, options.caseSensitive);
+    const score = calculateSimilarity(q, bnName, threshold, options);
     scores.push({ score, field: 'bnName' });
   }
 
   if (options.includeSlug) {
-    const score = calculateSimilarity(query, item.slug, options.caseSensitive);
+    const score = calculateSimilarity(q, slug, threshold, options);
     scores.push({ score, field: 'slug' });
   }
 
@@ -167,92 +468,649 @@ function searchInItem<T extends AnyLocation>(
 }
 
 /**
- * Search across all locations
+ * Copy of an options object without its undefined entries, so that spreading
+ * it over the defaults keeps the default for `{ minScore: undefined }`
  */
-export function search(query: string, options?: SearchOptions): LocationSearchResult {
-  const opts = { ...defaultSearchOptions, ...options };
-  const result: LocationSearchResult = {
-    divisions: [],
-    districts: [],
-    upazilas: [],
-    unions: [],
+export function definedOptions<T extends object>(options: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/** Check whether the item at a position of the type index is in scope */
+type ScopeFilter = (position: number) => boolean;
+
+/**
+ * Build the in-scope check of each type, or undefined when the scope is empty
+ */
+function createScopeFilters(
+  dataset: LocationDataset,
+  within: SearchScope
+): Record<LocationType, ScopeFilter> | undefined {
+  const { divisionId, districtId, upazilaId } = within;
+  if (divisionId === undefined && districtId === undefined && upazilaId === undefined) {
+    return undefined;
+  }
+
+  const ids = <T extends AnyLocation>(type: LocationType, keep: (item: T) => boolean) =>
+    new Set((getTypeIndex(dataset, type).items as T[]).filter(keep).map((item) => item.id));
+
+  const districtIds = ids<District>(
+    'district',
+    (d) =>
+      (divisionId === undefined || d.divisionId === divisionId) &&
+      (districtId === undefined || d.id === districtId)
+  );
+  const upazilaIds = ids<Upazila>(
+    'upazila',
+    (u) => districtIds.has(u.districtId) && (upazilaId === undefined || u.id === upazilaId)
+  );
+  // City corporations and thanas sit beside upazilas, so an upazila scope excludes them
+  const cityCorporationIds = ids<CityCorporation>(
+    'cityCorporation',
+    (c) => upazilaId === undefined && districtIds.has(c.districtId)
+  );
+  const municipalityIds = ids<Municipality>('municipality', (m) => upazilaIds.has(m.upazilaId));
+
+  const filter = <T extends AnyLocation>(type: LocationType, inScope: (item: T) => boolean): ScopeFilter => {
+    const { items } = getTypeIndex(dataset, type);
+    return (position) => inScope(items[position] as T);
   };
 
-  if (!query || query.trim().length === 0) {
-    return result;
+  return {
+    division: filter<Division>(
+      'division',
+      (d) => d.id === divisionId && districtId === undefined && upazilaId === undefined
+    ),
+    district: filter<District>('district', (d) => upazilaId === undefined && districtIds.has(d.id)),
+    upazila: filter<Upazila>('upazila', (u) => upazilaIds.has(u.id)),
+    union: filter<Union>('union', (u) => upazilaIds.has(u.upazilaId)),
+    cityCorporation: filter<CityCorporation>('cityCorporation', (c) => cityCorporationIds.has(c.id)),
+    municipality: filter<Municipality>('municipality', (m) => municipalityIds.has(m.id)),
+    ward: filter<Ward>(
+      'ward',
+      (w) =>
+        (w.cityCorporationId !== undefined && cityCorporationIds.has(w.cityCorporationId)) ||
+        (w.municipalityId !== undefined && municipalityIds.has(w.municipalityId))
+    ),
+    thana: filter<Thana>('thana', (t) => cityCorporationIds.has(t.cityCorporationId)),
+  };
+}
+
+/**
+ * Build the check of each type for `within` and `where`, or undefined when
+ * neither limits the search
+ */
+function createFilters(
+  dataset: LocationDataset,
+  options: Required<SearchOptions>
+): Record<LocationType, ScopeFilter> | undefined {
+  const scope = createScopeFilters(dataset, options.within);
+  const { where } = options;
+  if (typeof where !== 'function' || where === everyLocation) return scope;
+
+  const filters = {} as Record<LocationType, ScopeFilter>;
+  for (const type of Object.keys(RESULT_KEYS) as LocationType[]) {
+    const { items } = getTypeIndex(dataset, type);
+    const inScope = scope?.[type];
+    filters[type] = (position) => (!inScope || inScope(position)) && where(items[position] as AnyLocation);
   }
+  return filters;
+}
+
+/**
+ * Score items by phonetic key and keep the phonetic score where it beats
+ * the spelling-based one
+ */
+function searchPhonetic<T extends AnyLocation>(
+  dataset: LocationDataset,
+  type: LocationType,
+  query: string,
+  options: Required<SearchOptions>,
+  threshold: number,
+  matches: Map<number, ScoredMatch<T>>,
+  inScope?: ScopeFilter
+): void {
+  const key = toPhoneticKey(query);
+  if (!key) return;
+
+  const { items } = getTypeIndex(dataset, type);
+  const index = getPhoneticIndex(dataset, type);
+  const minSimilarity = threshold / PHONETIC_WEIGHT;
+  const positions = new Set([
+    ...findSubstringMatches(index, key),
+    ...findFuzzyCandidates(index, key, minSimilarity, options),
+  ]);
+
+  for (const position of positions) {
+    if (inScope && !inScope(position)) continue;
+    let best: ScoredMatch<T> | null = null;
 
-  const trimmedQuery = query.trim();
+    for (let f = 0; f < index.fieldsPerItem; f++) {
+      const field = f === 0 ? 'name' : 'bnName';
+      if (field === 'name' ? !options.includeEnglish : !options.includeBengali) continue;
 
-  // Search divisions
-  if (opts.types.includes('division')) {
-    for (const division of divisionsData) {
-      const searchResult = searchInItem(division, trimmedQuery, opts);
-      if (searchResult) {
-        result.divisions.push(searchResult);
+      const target = index.keys[position * index.fieldsPerItem + f] as string;
+      const score = calculateSimilarity(key, target, minSimilarity, options) * PHONETIC_WEIGHT;
+      if (score >= threshold && (!best || score > best.score)) {
+        const item = items[position] as T;
+        best = { item, score, matchedField: field, matchedText: item[field], matchKind: 'phonetic' };
       }
     }
-    result.divisions.sort((a, b) => b.score - a.score);
-    result.divisions = result.divisions.slice(0, opts.limit);
+
+    const existing = matches.get(position);
+    if (best && (!existing || best.score > existing.score)) {
+      matches.set(position, best);
+    }
   }
+}
 
-  // Search districts
-  if (opts.types.includes('district')) {
-    for (const district of districtsData) {
-      const searchResult = searchInItem(district, trimmedQuery, opts);
-      if (searchResult) {
-        result.districts.push(searchResult);
-      }
+/**
+ * Score alias names and keep the alias score where it beats the score of
+ * the primary names
+ */
+function searchAliases<T extends AnyLocation>(
+  dataset: LocationDataset,
+  type: LocationType,
+  query: string,
+  options: Required<SearchOptions>,
+  threshold: number,
+  matches: Map<number, ScoredMatch<T>>,
+  inScope?: ScopeFilter
+): void {
+  const { items, aliases, aliasText } = getTypeIndex(dataset, type);
+  if (aliases.length === 0) return;
+
+  const q = options.caseSensitive ? query : query.toLowerCase();
+  const entries = new Set([
+    ...findSubstringMatches(aliasText, query.toLowerCase()),
+    ...findFuzzyCandidates(aliasText, query.toLowerCase(), threshold, options),
+  ]);
+
+  for (const entry of entries) {
+    const { position, alias, field } = aliases[entry] as AliasEntry;
+    if (inScope && !inScope(position)) continue;
+    if (field === 'name' ? !options.includeEnglish : !options.includeBengali) continue;
+
+    const target = options.caseSensitive
+      ? (alias[field] as string)
+      : (aliasText.keys[entry] as string);
+    const score = calculateSimilarity(q, target, threshold, options);
+    if (score < threshold) continue;
+
+    const existing = matches.get(position);
+    if (!existing || score > existing.score) {
+      matches.set(position, {
+        item: items[position] as T,
+        score,
+        matchedField: 'alias',
+        matchedAlias: alias,
+        matchedText: alias[field] as string,
+        matchKind: 'alias',
+      });
     }
-    result.districts.sort((a, b) => b.score - a.score);
-    result.districts = result.districts.slice(0, opts.limit);
   }
+}
+
+/**
+ * Kind of match of a text (normalized, lowercased query)
+ */
+function getMatchKind(text: string, query: string): MatchKind {
+  const key = normalizeName(text);
+  if (key === query) return 'exact';
+  if (key.startsWith(query)) return 'prefix';
+  if (key.includes(query)) return 'substring';
+  return 'fuzzy';
+}
+
+/**
+ * Add the matched text, kind of match and highlight ranges to a match
+ */
+function explainMatch<T extends AnyLocation>(match: ScoredMatch<T>, query: string): SearchResult<T> {
+  const matchedText =
+    match.matchedText ?? (match.item[match.matchedField as 'name' | 'bnName' | 'slug'] as string);
+
+  return {
+    ...match,
+    matchedText,
+    matchKind: match.matchKind ?? getMatchKind(matchedText, query),
+    highlights: findHighlights(matchedText, query),
+  };
+}
+
+/**
+ * Search one location type using the index: substring matches are scored
+ * first, then only records that can still make the top `limit` are scored
+ * by edit distance. Results are identical to scoring every record.
+ * Records outside the scope are skipped before scoring, so they never take
+ * a place in the top `limit`.
+ */
+function searchType<T extends AnyLocation>(
+  dataset: LocationDataset,
+  type: LocationType,
+  query: string,
+  options: Required<SearchOptions>,
+  inScope?: ScopeFilter
+): SearchResult<T>[] {
+  const { items, fields, text } = getTypeIndex(dataset, type);
+  const lowerQuery = query.toLowerCase();
+  const matches = new Map<number, ScoredMatch<T>>();
+
+  for (const position of findSubstringMatches(text, lowerQuery)) {
+    if (inScope && !inScope(position)) continue;
+    const result = searchInItem(items[position] as T, query, options, fields[position]);
+    if (result) matches.set(position, result);
+  }
+
+  // Once `limit` results exist, anything scoring below the limit-th best is
+  // irrelevant, so the threshold rises as better matches are found
+  const topScores = [...matches.values()].map((r) => r.score).sort((a, b) => b - a);
+  const currentThreshold = () =>
+    options.limit > 0 && topScores.length >= options.limit
+      ? Math.max(options.threshold, topScores[options.limit - 1] as number)
+      : options.threshold;
+
+  const candidates = findFuzzyCandidates(text, lowerQuery, currentThreshold(), options);
+
+  for (const position of candidates) {
+    if (matches.has(position) || (inScope && !inScope(position))) continue;
+    const result = searchInItem(items[position] as T, query, {
+      ...options,
+      threshold: currentThreshold(),
+    }, fields[position]);
+    if (!result) continue;
+    matches.set(position, result);
+
+    const at = topScores.findIndex((score) => score < result.score);
+    topScores.splice(at === -1 ? topScores.length : at, 0, result.score);
+    if (options.limit > 0 && topScores.length > options.limit) topScores.pop();
+  }
+
+  searchAliases(dataset, type, query, options, currentThreshold(), matches, inScope);
+
+  if (options.phonetic) {
+    searchPhonetic(dataset, type, query, options, currentThreshold(), matches, inScope);
+  }
+
+  // Sort by score, keeping original data order for equal scores
+  return [...matches]
+    .sort(([pa, a], [pb, b]) => b.score - a.score || pa - pb)
+    .slice(0, options.limit)
+    .map(([, result]) => explainMatch(result, lowerQuery));
+}
+
+/**
+ * Find a location of a type by id
+ */
+function findLocationById<T extends AnyLocation>(
+  dataset: LocationDataset,
+  type: LocationType,
+  id: number | undefined
+): T | undefined {
+  if (id === undefined) return undefined;
+  return findById(getTypeIndex(dataset, type).items, id) as T | undefined;
+}
+
+/**
+ * Ancestors of a location, from the division down
+ */
+function getLocationPath(dataset: LocationDataset, type: LocationType, item: AnyLocation): LocationPath {
+  let upazila: Upazila | undefined;
+  let cityCorporation: CityCorporation | undefined;
+  let municipality: Municipality | undefined;
+
+  if (type === 'union') {
+    upazila = findLocationById(dataset, 'upazila', (item as Union).upazilaId);
+  } else if (type === 'municipality') {
+    upazila = findLocationById(dataset, 'upazila', (item as Municipality).upazilaId);
+  } else if (type === 'ward') {
+    cityCorporation = findLocationById(dataset, 'cityCorporation', (item as Ward).cityCorporationId);
+    municipality = findLocationById(dataset, 'municipality', (item as Ward).municipalityId);
+  } else if (type === 'thana') {
+    cityCorporation = findLocationById(dataset, 'cityCorporation', (item as Thana).cityCorporationId);
+  }
+
+  const districtId =
+    'districtId' in item ? item.districtId : (upazila ?? cityCorporation ?? municipality)?.districtId;
+  const district = findLocationById<District>(dataset, 'district', districtId);
+  const divisionId = 'divisionId' in item ? item.divisionId : district?.divisionId;
+  const division = findLocationById<Division>(dataset, 'division', divisionId);
+
+  return {
+    ...(division && { division }),
+    ...(district && { district }),
+    ...(upazila && { upazila }),
+    ...(cityCorporation && { cityCorporation }),
+    ...(municipality && { municipality }),
+  };
+}
+
+/**
+ * Build the search functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createSearchFunctions(dataset: LocationDataset) {
+  const search = (query: string, options?: SearchOptions): LocationSearchResult => {
+    const opts = { ...defaultSearchOptions, ...definedOptions(options) };
+    const result: LocationSearchResult = {
+      divisions: [],
+      districts: [],
+      upazilas: [],
+      unions: [],
+      cityCorporations: [],
+      municipalities: [],
+      wards: [],
+      thanas: [],
+    };
+
+    // Bengali digits, Unicode forms and invisible characters compare equal
+    const trimmedQuery = query ? normalizeText(query) : '';
+    if (trimmedQuery.length === 0) {
+      return result;
+    }
+
+    const scope = createFilters(dataset, opts);
+
+    if (opts.types.includes('division')) {
+      result.divisions = searchType<Division>(dataset, 'division', trimmedQuery, opts, scope?.division);
+    }
+
+    if (opts.types.includes('district')) {
+      result.districts = searchType<District>(dataset, 'district', trimmedQuery, opts, scope?.district);
+    }
+
+    if (opts.types.includes('upazila')) {
+      result.upazilas = searchType<Upazila>(dataset, 'upazila', trimmedQuery, opts, scope?.upazila);
+    }
+
+    if (opts.types.includes('union')) {
+      result.unions = searchType<Union>(dataset, 'union', trimmedQuery, opts, scope?.union);
+    }
+
+    if (opts.types.includes('cityCorporation')) {
+      result.cityCorporations = searchType<CityCorporation>(dataset, 'cityCorporation', trimmedQuery, opts, scope?.cityCorporation);
+    }
+
+    if (opts.types.includes('municipality')) {
+      result.municipalities = searchType<Municipality>(dataset, 'municipality', trimmedQuery, opts, scope?.municipality);
+    }
+
+    if (opts.types.includes('ward')) {
+      result.wards = searchType<Ward>(dataset, 'ward', trimmedQuery, opts, scope?.ward);
+    }
+
+    if (opts.types.includes('thana')) {
+      result.thanas = searchType<Thana>(dataset, 'thana', trimmedQuery, opts, scope?.thana);
+    }
+
+    return result;
+  };
+
+  const searchAll = (query: string, options?: SearchOptions): RankedSearchResult[] => {
+    const opts = { ...defaultSearchOptions, ...definedOptions(options) };
+    const result = search(query, opts);
+
+    const ranked = opts.types
+      .flatMap((type) =>
+        (result[RESULT_KEYS[type]] as SearchResult<AnyLocation>[]).map((r) => ({ ...r, type }))
+      )
+      .sort((a, b) => b.score - a.score || LEVEL_RANK[a.type] - LEVEL_RANK[b.type]);
+
+    // Group identical names at the position of their best result
+    const groups = new Map<string, number>();
+    for (const r of ranked) {
+      const key = normalizeName(r.item.name);
+      if (!groups.has(key)) groups.set(key, groups.size);
+    }
+    const groupOf = (r: (typeof ranked)[number]) => groups.get(normalizeName(r.item.name)) as number;
+    ranked.sort((a, b) => groupOf(a) - groupOf(b));
+
+    return ranked.slice(0, opts.limit > 0 ? opts.limit : undefined).map((r) => ({
+      ...r,
+      path: getLocationPath(dataset, r.type, r.item),
+      group: groupOf(r),
+    }));
+  };
+
+  const quickSearch = (query: string, options?: SearchOptions): AnyLocation | null => {
+    const [first] = searchAll(query, { ...options, limit: 1 });
+    return first ? first.item : null;
+  };
+
+  const searchDivisions = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<Division>[] => {
+    const result = search(query, { ...options, types: ['division'] });
+    return result.divisions;
+  };
+
+  const searchDistricts = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<District>[] => {
+    const result = search(query, { ...options, types: ['district'] });
+    return result.districts;
+  };
+
+  const searchUpazilas = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<Upazila>[] => {
+    const result = search(query, { ...options, types: ['upazila'] });
+    return result.upazilas;
+  };
+
+  const searchUnions = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<Union>[] => {
+    const result = search(query, { ...options, types: ['union'] });
+    return result.unions;
+  };
+
+  const searchCityCorporations = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<CityCorporation>[] => {
+    const result = search(query, { ...options, types: ['cityCorporation'] });
+    return result.cityCorporations;
+  };
+
+  const searchMunicipalities = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<Municipality>[] => {
+    const result = search(query, { ...options, types: ['municipality'] });
+    return result.municipalities;
+  };
+
+  const searchWards = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<Ward>[] => {
+    const result = search(query, { ...options, types: ['ward'] });
+    return result.wards;
+  };
+
+  const searchThanas = (query: string, options?: Omit<SearchOptions, 'types'>): SearchResult<Thana>[] => {
+    const result = search(query, { ...options, types: ['thana'] });
+    return result.thanas;
+  };
+
+  const autocomplete = (query: string, options?: SearchOptions): AutocompleteResult[] => {
+    const normalized = query ? normalizeText(query) : '';
+    if (normalized.length === 0) return [];
 
-  // Search upazilas
-  if (opts.types.includes('upazila')) {
-    for (const upazila of upazilasData) {
-      const searchResult = searchInItem(upazila, trimmedQuery, opts);
-      if (searchResult) {
-        result.upazilas.push(searchResult);
+    const opts = { ...defaultSearchOptions, ...definedOptions(options) };
+    const q = opts.caseSensitive ? normalized : normalized.toLowerCase();
+    const results: (Omit<AutocompleteResult, 'highlights'> & { priority: number })[] = [];
+
+    const checkStartsWith = (
+      item: AnyLocation,
+      type: LocationType,
+      [lowerName, lowerBnName]: readonly [string, string, string]
+    ) => {
+      const { name, bnName } = item;
+      const nameToCheck = opts.caseSensitive ? name : lowerName;
+      const bnNameToCheck = opts.caseSensitive ? bnName : lowerBnName;
+
+      const kind = (text: string): MatchKind => (text === q ? 'exact' : 'prefix');
+
+      if (opts.includeEnglish && nameToCheck.startsWith(q)) {
+        results.push({ name, bnName, type, item, matchedText: name, matchKind: kind(nameToCheck), priority: 1 });
+      } else if (opts.includeBengali && bnNameToCheck.startsWith(q)) {
+        results.push({ name, bnName, type, item, matchedText: bnName, matchKind: kind(bnNameToCheck), priority: 2 });
+      }
+    };
+
+    // Only items with a field starting with the query can match
+    const types = (
+      [
+        'division',
+        'district',
+        'upazila',
+        'union',
+        'cityCorporation',
+        'municipality',
+        'ward',
+        'thana',
+      ] as LocationType[]
+    ).filter((type) =>
+      opts.types.includes(type)
+    );
+    const matched = new Set<AnyLocation>();
+    const scope = createFilters(dataset, opts);
+
+    for (const type of types) {
+      const { items, fields, text } = getTypeIndex(dataset, type);
+      for (const position of findPrefixMatches(text, q.toLowerCase())) {
+        if (scope && !scope[type](position)) continue;
+        const item = items[position] as AnyLocation;
+        const before = results.length;
+        checkStartsWith(item, type, fields[position] as [string, string, string]);
+        if (results.length > before) matched.add(item);
       }
     }
-    result.upazilas.sort((a, b) => b.score - a.score);
-    result.upazilas = result.upazilas.slice(0, opts.limit);
-  }
 
-  // Search unions
-  if (opts.types.includes('union')) {
-    for (const union of unionsData) {
-      const searchResult = searchInItem(union, trimmedQuery, opts);
-      if (searchResult) {
-        result.unions.push(searchResult);
+    // Alias prefix matches ("Chitta" -> Chattogram) rank after primary names
+    for (const type of types) {
+      const { items, aliases, aliasText } = getTypeIndex(dataset, type);
+      for (const entry of findPrefixMatches(aliasText, q.toLowerCase())) {
+        const { position, alias, field } = aliases[entry] as AliasEntry;
+        if (scope && !scope[type](position)) continue;
+        const item = items[position] as AnyLocation;
+        if (matched.has(item)) continue;
+        if (field === 'name' ? !opts.includeEnglish : !opts.includeBengali) continue;
+
+        const value = opts.caseSensitive ? (alias[field] as string) : (aliasText.keys[entry] as string);
+        if (!value.startsWith(q)) continue;
+
+        results.push({
+          name: item.name,
+          bnName: item.bnName,
+          type,
+          item,
+          matchedText: alias[field] as string,
+          matchKind: 'alias',
+          priority: 3,
+        });
+        matched.add(item);
       }
     }
-    result.unions.sort((a, b) => b.score - a.score);
-    result.unions = result.unions.slice(0, opts.limit);
-  }
 
-  return result;
+    // Phonetic prefix matches rank after spelling-based ones
+    const key = opts.phonetic ? toPhoneticKey(q) : '';
+    if (key) {
+      for (const type of types) {
+        const { items } = getTypeIndex(dataset, type);
+        const index = getPhoneticIndex(dataset, type);
+        for (const position of findPrefixMatches(index, key)) {
+          if (scope && !scope[type](position)) continue;
+          const item = items[position] as AnyLocation;
+          if (matched.has(item)) continue;
+
+          const nameKey = index.keys[position * index.fieldsPerItem] as string;
+          const bnNameKey = index.keys[position * index.fieldsPerItem + 1] as string;
+          const matchedText =
+            opts.includeEnglish && nameKey.startsWith(key)
+              ? item.name
+              : opts.includeBengali && bnNameKey.startsWith(key)
+                ? item.bnName
+                : undefined;
+          if (matchedText !== undefined) {
+            results.push({
+              name: item.name,
+              bnName: item.bnName,
+              type,
+              item,
+              matchedText,
+              matchKind: 'phonetic',
+              priority: 4,
+            });
+          }
+        }
+      }
+    }
+
+    // Sort by priority and limit
+    results.sort((a, b) => a.priority - b.priority);
+    const lowerQuery = q.toLowerCase();
+    return results.slice(0, opts.limit).map(({ priority, ...result }) => ({
+      ...result,
+      highlights: findHighlights(result.matchedText, lowerQuery),
+    }));
+  };
+
+  const fuzzySearch = (query: string, options?: SearchOptions): LocationSearchResult => {
+    return search(query, { threshold: 0.2, scoring: 'damerau', ...options });
+  };
+
+  const searchBengali = (query: string, options?: Omit<SearchOptions, 'includeEnglish' | 'includeSlug'>): LocationSearchResult => {
+    return search(query, {
+      ...options,
+      includeEnglish: false,
+      includeBengali: true,
+      includeSlug: false,
+    });
+  };
+
+  const searchEnglish = (query: string, options?: Omit<SearchOptions, 'includeBengali' | 'includeSlug'>): LocationSearchResult => {
+    return search(query, {
+      ...options,
+      includeEnglish: true,
+      includeBengali: false,
+      includeSlug: false,
+    });
+  };
+
+  return {
+    search,
+    searchAll,
+    quickSearch,
+    searchDivisions,
+    searchDistricts,
+    searchUpazilas,
+    searchUnions,
+    searchCityCorporations,
+    searchMunicipalities,
+    searchWards,
+    searchThanas,
+    autocomplete,
+    fuzzySearch,
+    searchBengali,
+    searchEnglish,
+  };
 }
 
+const bundled = createSearchFunctions(bundledDataset);
+
 /**
- * Quick search - returns first matching item of any type
+ * Search across all locations
  */
-export function quickSearch(query: string, options?: SearchOptions): AnyLocation | null {
-  const result = search(query, { ...options, limit: 1 });
-
-  const allResults: SearchResult<AnyLocation>[] = [
-    ...result.divisions,
-    ...result.districts,
-    ...result.upazilas,
-    ...result.unions,
-  ];
+export function search(query: string, options?: SearchOptions): LocationSearchResult {
+  return bundled.search(query, options);
+}
 
-  if (allResults.length === 0) return null;
+/**
+ * Search across all levels and return one ranked list.
+ * Results are sorted by score, higher levels first on ties; results sharing
+ * a name are kept together (at the position of the best of them), so
+ * "Barishal" lists the division and the district side by side. Each result
+ * carries its ancestors and the ranges of the query in the matched text.
+ * @param query - Search text (English or Bengali)
+ * @param options - Search options; `limit` applies to the whole list
+ * @returns Ranked results
+ */
+export function searchAll(query: string, options?: SearchOptions): RankedSearchResult[] {
+  return bundled.searchAll(query, options);
+}
 
-  allResults.sort((a, b) => b.score - a.score);
-  const first = allResults[0];
-  return first ? first.item : null;
+/**
+ * Quick search - returns the best matching item of any type
+ * (ranked as in searchAll: higher levels first on ties)
+ */
+export function quickSearch(query: string, options?: SearchOptions): AnyLocation | null {
+  return bundled.quickSearch(query, options);
 }
 
 /**
@@ -262,8 +1120,7 @@ export function searchDivisions(
   query: string,
   options?: Omit<SearchOptions, 'types'>
 ): SearchResult<Division>[] {
-  const result = search(query, { ...options, types: ['division'] });
-  return result.divisions;
+  return bundled.searchDivisions(query, options);
 }
 
 /**
@@ -273,8 +1130,7 @@ export function searchDistricts(
   query: string,
   options?: Omit<SearchOptions, 'types'>
 ): SearchResult<District>[] {
-  const result = search(query, { ...options, types: ['district'] });
-  return result.districts;
+  return bundled.searchDistricts(query, options);
 }
 
 /**
@@ -284,8 +1140,7 @@ export function searchUpazilas(
   query: string,
   options?: Omit<SearchOptions, 'types'>
 ): SearchResult<Upazila>[] {
-  const result = search(query, { ...options, types: ['upazila'] });
-  return result.upazilas;
+  return bundled.searchUpazilas(query, options);
 }
 
 /**
@@ -295,100 +1150,91 @@ export function searchUnions(
   query: string,
   options?: Omit<SearchOptions, 'types'>
 ): SearchResult<Union>[] {
-  const result = search(query, { ...options, types: ['union'] });
-  return result.unions;
+  return bundled.searchUnions(query, options);
 }
 
 /**
- * Autocomplete search - returns names that start with query
+ * Search only city corporations
  */
-export function autocomplete(
+export function searchCityCorporations(
   query: string,
-  options?: SearchOptions
-): { name: string; bnName: string; type: LocationType; item: AnyLocation }[] {
-  if (!query || query.trim().length === 0) return [];
-
-  const opts = { ...defaultSearchOptions, ...options };
-  const q = opts.caseSensitive ? query.trim() : query.trim().toLowerCase();
-  const results: { name: string; bnName: string; type: LocationType; item: AnyLocation; priority: number }[] = [];
-
-  const checkStartsWith = (name: string, bnName: string, type: LocationType, item: AnyLocation) => {
-    const nameToCheck = opts.caseSensitive ? name : name.toLowerCase();
-    const bnNameToCheck = bnName;
-
-    if (opts.includeEnglish && nameToCheck.startsWith(q)) {
-      results.push({ name, bnName, type, item, priority: 1 });
-    } else if (opts.includeBengali && bnNameToCheck.startsWith(q)) {
-      results.push({ name, bnName, type, item, priority: 2 });
-    }
-  };
-
-  if (opts.types.includes('division')) {
-    for (const div of divisionsData) {
-      checkStartsWith(div.name, div.bnName, 'division', div);
-    }
-  }
+  options?: Omit<SearchOptions, 'types'>
+): SearchResult<CityCorporation>[] {
+  return bundled.searchCityCorporations(query, options);
+}
 
-  if (opts.types.includes('district')) {
-    for (const dist of districtsData) {
-      checkStartsWith(dist.name, dist.bnName, 'district', dist);
-    }
-  }
+/**
+ * Search only municipalities (pourashavas)
+ */
+export function searchMunicipalities(
+  query: string,
+  options?: Omit<SearchOptions, 'types'>
+): SearchResult<Municipality>[] {
+  return bundled.searchMunicipalities(query, options);
+}
 
-  if (opts.types.includes('upazila')) {
-    for (const upz of upazilasData) {
-      checkStartsWith(upz.name, upz.bnName, 'upazila', upz);
-    }
-  }
+/**
+ * Search only wards
+ */
+export function searchWards(
+  query: string,
+  options?: Omit<SearchOptions, 'types'>
+): SearchResult<Ward>[] {
+  return bundled.searchWards(query, options);
+}
 
-  if (opts.types.includes('union')) {
-    for (const union of unionsData) {
-      checkStartsWith(union.name, union.bnName, 'union', union);
-    }
-  }
+/**
+ * Search only metropolitan thanas
+ */
+export function searchThanas(
+  query: string,
+  options?: Omit<SearchOptions, 'types'>
+): SearchResult<Thana>[] {
+  return bundled.searchThanas(query, options);
+}
 
-  // Sort by priority and limit
-  results.sort((a, b) => a.priority - b.priority);
-  return results.slice(0, opts.limit).map(({ name, bnName, type, item }) => ({ name, bnName, type, item }));
+/**
+ * Autocomplete search - returns names that start with query
+ */
+export function autocomplete(query: string, options?: SearchOptions): AutocompleteResult[] {
+  return bundled.autocomplete(query, options);
 }
 
 /**
- * Fuzzy search with typo tolerance
+ * Fuzzy search with typo tolerance: a lower threshold than search and
+ * Damerau scoring, so swapped letters count as one typo (both can be
+ * overridden in options)
  */
 export function fuzzySearch(query: string, options?: SearchOptions): LocationSearchResult {
-  return search(query, { ...options, threshold: 0.4 });
+  return bundled.fuzzySearch(query, options);
 }
 
 /**
  * Search by Bengali name only
  */
 export function searchBengali(query: string, options?: Omit<SearchOptions, 'includeEnglish' | 'includeSlug'>): LocationSearchResult {
-  return search(query, {
-    ...options,
-    includeEnglish: false,
-    includeBengali: true,
-    includeSlug: false,
-  });
+  return bundled.searchBengali(query, options);
 }
 
 /**
  * Search by English name only
  */
 export function searchEnglish(query: string, options?: Omit<SearchOptions, 'includeBengali' | 'includeSlug'>): LocationSearchResult {
-  return search(query, {
-    ...options,
-    includeEnglish: true,
-    includeBengali: false,
-    includeSlug: false,
-  });
+  return bundled.searchEnglish(query, options);
 }
 
 export default {
   search,
+  searchAll,
   quickSearch,
   searchDivisions,
   searchDistricts,
   searchUpazilas,
+  searchUnions,
+  searchCityCorporations,
+  searchMunicipalities,
+  searchWards,
+  searchThanas,
   autocomplete,
   fuzzySearch,
   searchBengali,
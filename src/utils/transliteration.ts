@@ -0,0 +1,136 @@
+/**
+ * Bengali ↔ Latin transliteration utilities
+ * Reduces Bengali script and phonetic Latin spellings to a common phonetic key,
+ * so "Komilla", "Cumilla" and "কুমিল্লা" can be compared with each other
+ */
+
+// Independent vowels
+const BENGALI_VOWELS: Record<string, string> = {
+  'অ': 'o', 'আ': 'a', 'ই': 'i', 'ঈ': 'i', 'উ': 'u', 'ঊ': 'u', 'ঋ': 'ri',
+  'এ': 'e', 'ঐ': 'oi', 'ও': 'o', 'ঔ': 'ou',
+};
+
+// Dependent vowel signs (kar)
+const BENGALI_VOWEL_SIGNS: Record<string, string> = {
+  'া': 'a', 'ি': 'i', 'ী': 'i', 'ু': 'u', 'ূ': 'u', 'ৃ': 'ri',
+  'ে': 'e', 'ৈ': 'oi', 'ো': 'o', 'ৌ': 'ou',
+};
+
+const BENGALI_CONSONANTS: Record<string, string> = {
+  'ক': 'k', 'খ': 'kh', 'গ': 'g', 'ঘ': 'gh', 'ঙ': 'ng',
+  'চ': 'ch', 'ছ': 'chh', 'জ': 'j', 'ঝ': 'jh', 'ঞ': 'n',
+  'ট': 't', 'ঠ': 'th', 'ড': 'd', 'ঢ': 'dh', 'ণ': 'n',
+  'ত': 't', 'থ': 'th', 'দ': 'd', 'ধ': 'dh', 'ন': 'n',
+  'প': 'p', 'ফ': 'ph', 'ব': 'b', 'ভ': 'bh', 'ম': 'm',
+  'য': 'j', 'র': 'r', 'ল': 'l', 'শ': 'sh', 'ষ': 'sh',
+  'স': 's', 'হ': 'h', 'ৎ': 't',
+  '\u09DC': 'r', '\u09DD': 'rh', '\u09DF': 'y', // precomposed ড় ঢ় য়
+};
+
+// Consonant + nukta (the decomposed form of ড় ঢ় য়)
+const NUKTA_FORMS: Record<string, string> = {
+  'ড': '\u09DC', 'ঢ': '\u09DD', 'য': '\u09DF',
+};
+
+// Signs that follow a letter: anusvara, visarga, chandrabindu
+const BENGALI_MODIFIERS: Record<string, string> = {
+  'ং': 'ng', 'ঃ': 'h', 'ঁ': '',
+};
+
+const HASANTA = '্';
+const NUKTA = '়';
+
+/**
+ * Transliterate Bengali script to phonetic Latin
+ * (e.g. "চট্টগ্রাম" -> "chottogram"). Non-Bengali characters are kept as is.
+ * @param text - Text in Bengali script
+ * @returns Latin transliteration (lowercase)
+ */
+export function transliterateBengali(text: string): string {
+  // Fold consonant + nukta into the precomposed letter so it maps as one
+  const chars: string[] = [];
+  for (const char of text.normalize('NFC')) {
+    const previous = chars[chars.length - 1];
+    if (char === NUKTA && previous !== undefined && NUKTA_FORMS[previous]) {
+      chars[chars.length - 1] = NUKTA_FORMS[previous] as string;
+    } else {
+      chars.push(char);
+    }
+  }
+  let result = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i] as string;
+
+    const consonant = BENGALI_CONSONANTS[char];
+    if (consonant !== undefined) {
+      // য after hasanta is the ya-phala (্য), pronounced as a glide
+      result += char === 'য' && chars[i - 1] === HASANTA ? 'y' : consonant;
+
+      // Inherent vowel between consonants (not word-final, not before a sign)
+      const next = chars[i + 1];
+      if (
+        next !== undefined &&
+        next !== HASANTA &&
+        BENGALI_VOWEL_SIGNS[next] === undefined &&
+        BENGALI_MODIFIERS[next] === undefined &&
+        BENGALI_CONSONANTS[next] !== undefined
+      ) {
+        result += 'o';
+      }
+      continue;
+    }
+
+    const vowel = BENGALI_VOWELS[char] ?? BENGALI_VOWEL_SIGNS[char] ?? BENGALI_MODIFIERS[char];
+    if (vowel !== undefined) {
+      result += vowel;
+      continue;
+    }
+
+    if (char === HASANTA || char === NUKTA) continue;
+
+    result += char.toLowerCase();
+  }
+
+  return result;
+}
+
+/**
+ * Reduce a name (Bengali or Latin) to a phonetic key.
+ * Spelling variants collapse to the same key: aspirated and plain consonants
+ * merge (ch/chh, sh/s, bh/b, ...), c/q become k, v becomes b, z becomes j,
+ * vowels merge into one class and repeated letters collapse.
+ * @param text - Name in Bengali script or Latin letters
+ * @returns Phonetic key, e.g. "Komilla", "Cumilla", "কুমিল্লা" -> "kamala"
+ */
+export function toPhoneticKey(text: string): string {
+  const latin = transliterateBengali(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ');
+
+  return latin
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) =>
+      word
+        .replace(/chh?/g, 'C')
+        .replace(/c|q/g, 'k')
+        .replace(/x/g, 'ks')
+        .replace(/v/g, 'b')
+        .replace(/z/g, 'j')
+        .replace(/C/g, 'c')
+        .replace(/ph/g, 'f')
+        .replace(/([kgtdbjrs])h/g, '$1')
+        .replace(/(?!^)h/g, '')
+        .replace(/[aeiouyw]+/g, 'a')
+        .replace(/(.)\1+/g, '$1')
+    )
+    .join('');
+}
+
+export default {
+  transliterateBengali,
+  toPhoneticKey,
+};
@@ -0,0 +1,235 @@
+/**
+ * Union functions for Bangladesh address data
+ * The 4,579 union parishads and their full address hierarchy
+ */
+
+import type { Upazila, Union, FullAddress, LocationOption } from '../types/location.types';
+import { findById, findByName, findBySlug, filterBy, getGroupIndex } from './lookup';
+import { createDivisionFunctions } from './divisions';
+import { createDistrictFunctions } from './districts';
+import { createUpazilaFunctions } from './upazilas';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+import unionsJson from '../data/unions.json';
+
+const unionsData = freezeData(unionsJson as Union[]);
+
+/**
+ * Build the union functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createUnionFunctions(dataset: LocationDataset) {
+  const unions = dataOf(dataset, 'union', unionsData);
+  const { getDivisionById } = createDivisionFunctions(dataset);
+  const { getDistrictById } = createDistrictFunctions(dataset);
+  const { getUpazilaById, getUpazilaBySlug } = createUpazilaFunctions(dataset);
+
+  const getUnionById = (id: number): Readonly<Union> | undefined => findById(unions, id);
+  const getUnionsByUpazila = (upazilaId: number): Readonly<Union>[] => filterBy(unions, 'upazilaId', upazilaId);
+
+  return {
+    getAllUnions: (): Readonly<Union>[] => [...unions],
+    getUnionById,
+    getUnionBySlug: (slug: string): Readonly<Union> | undefined => findBySlug(unions, slug),
+    getUnionByName: (name: string): Readonly<Union> | undefined => findByName(unions, name),
+    getUnionsByUpazila,
+    getUnionsByUpazilaSlug: (upazilaSlug: string): Readonly<Union>[] => {
+      const upazila = getUpazilaBySlug(upazilaSlug);
+      if (!upazila) return [];
+      return getUnionsByUpazila(upazila.id);
+    },
+    getUnionsByDistrict: (districtId: number): Readonly<Union>[] => {
+      const byDistrict = getGroupIndex(unions, 'districtId', (u) => getUpazilaById(u.upazilaId)?.districtId);
+      return [...(byDistrict.get(districtId) ?? [])];
+    },
+    getUnionsByDivision: (divisionId: number): Readonly<Union>[] => {
+      const byDivision = getGroupIndex(unions, 'divisionId', (u) => {
+        const upazila = getUpazilaById(u.upazilaId);
+        return upazila && getDistrictById(upazila.districtId)?.divisionId;
+      });
+      return [...(byDivision.get(divisionId) ?? [])];
+    },
+    getUpazilaOfUnion: (unionId: number): Readonly<Upazila> | undefined => {
+      const union = getUnionById(unionId);
+      if (!union) return undefined;
+      return getUpazilaById(union.upazilaId);
+    },
+    getFullAddressOfUnion: (unionId: number): FullAddress | undefined => {
+      const union = getUnionById(unionId);
+      if (!union) return undefined;
+
+      const upazila = getUpazilaById(union.upazilaId);
+      if (!upazila) return undefined;
+
+      const district = getDistrictById(upazila.districtId);
+      if (!district) return undefined;
+
+      const division = getDivisionById(district.divisionId);
+      if (!division) return undefined;
+
+      return { division, district, upazila, union };
+    },
+    isValidUnion: (id: number): boolean => getUnionById(id) !== undefined,
+    isUnionInUpazila: (unionId: number, upazilaId: number): boolean => {
+      const union = getUnionById(unionId);
+      return union !== undefined && union.upazilaId === upazilaId;
+    },
+    getUnionOptions: (upazilaId?: number): LocationOption[] => {
+      const data = upazilaId
+        ? getUnionsByUpazila(upazilaId)
+        : unions;
+      return data.map((u) => ({
+        value: u.slug,
+        label: u.name,
+        labelBn: u.bnName,
+        ...(u.meta !== undefined && { meta: u.meta }),
+      }));
+    },
+    getRawUnions: (): ReadonlyArray<Readonly<Union>> => unions,
+  };
+}
+
+const bundled = createUnionFunctions(bundledDataset);
+
+/**
+ * Get all unions
+ * @returns Array of all 4579 unions of Bangladesh
+ */
+export function getAllUnions(): Readonly<Union>[] {
+  return bundled.getAllUnions();
+}
+
+/**
+ * Get a union by ID
+ * @param id - Union ID
+ * @returns Union or undefined
+ */
+export function getUnionById(id: number): Readonly<Union> | undefined {
+  return bundled.getUnionById(id);
+}
+
+/**
+ * Get a union by slug
+ * @param slug - Union slug
+ * @returns Union or undefined
+ */
+export function getUnionBySlug(slug: string): Readonly<Union> | undefined {
+  return bundled.getUnionBySlug(slug);
+}
+
+/**
+ * Get a union by name (English or Bengali), including former names
+ * @param name - Union name or alias
+ * @returns Union or undefined
+ */
+export function getUnionByName(name: string): Readonly<Union> | undefined {
+  return bundled.getUnionByName(name);
+}
+
+/**
+ * Get all unions in an upazila
+ * @param upazilaId - Upazila ID
+ * @returns Array of unions
+ */
+export function getUnionsByUpazila(upazilaId: number): Readonly<Union>[] {
+  return bundled.getUnionsByUpazila(upazilaId);
+}
+
+/**
+ * Get all unions in an upazila by upazila slug
+ * @param upazilaSlug - Upazila slug
+ * @returns Array of unions
+ */
+export function getUnionsByUpazilaSlug(upazilaSlug: string): Readonly<Union>[] {
+  return bundled.getUnionsByUpazilaSlug(upazilaSlug);
+}
+
+/**
+ * Get all unions in a district
+ * @param districtId - District ID
+ * @returns Array of unions
+ */
+export function getUnionsByDistrict(districtId: number): Readonly<Union>[] {
+  return bundled.getUnionsByDistrict(districtId);
+}
+
+/**
+ * Get all unions in a division
+ * @param divisionId - Division ID
+ * @returns Array of unions
+ */
+export function getUnionsByDivision(divisionId: number): Readonly<Union>[] {
+  return bundled.getUnionsByDivision(divisionId);
+}
+
+/**
+ * Get the parent upazila of a union
+ * @param unionId - Union ID
+ * @returns Upazila or undefined
+ */
+export function getUpazilaOfUnion(unionId: number): Readonly<Upazila> | undefined {
+  return bundled.getUpazilaOfUnion(unionId);
+}
+
+/**
+ * Get the full address hierarchy for a union
+ * @param unionId - Union ID
+ * @returns FullAddress with union or undefined
+ */
+export function getFullAddressOfUnion(unionId: number): FullAddress | undefined {
+  return bundled.getFullAddressOfUnion(unionId);
+}
+
+/**
+ * Check if a union ID is valid
+ * @param id - Union ID to check
+ * @returns boolean
+ */
+export function isValidUnion(id: number): boolean {
+  return bundled.isValidUnion(id);
+}
+
+/**
+ * Check if a union belongs to an upazila
+ * @param unionId - Union ID
+ * @param upazilaId - Upazila ID
+ * @returns boolean
+ */
+export function isUnionInUpazila(unionId: number, upazilaId: number): boolean {
+  return bundled.isUnionInUpazila(unionId, upazilaId);
+}
+
+/**
+ * Get dropdown options for unions
+ * @param upazilaId - Optional upazila ID to filter by
+ * @returns Array of { value, label, labelBn, meta? } objects
+ */
+export function getUnionOptions(
+  upazilaId?: number
+): LocationOption[] {
+  return bundled.getUnionOptions(upazilaId);
+}
+
+/** Get raw unions data */
+export function getRawUnions(): ReadonlyArray<Readonly<Union>> {
+  return bundled.getRawUnions();
+}
+
+export default {
+  getAllUnions,
+  getUnionById,
+  getUnionBySlug,
+  getUnionByName,
+  getUnionsByUpazila,
+  getUnionsByUpazilaSlug,
+  getUnionsByDistrict,
+  getUnionsByDivision,
+  getUpazilaOfUnion,
+  getFullAddressOfUnion,
+  isValidUnion,
+  isUnionInUpazila,
+  getUnionOptions,
+  getRawUnions,
+};
@@ -0,0 +1,282 @@
+/**
+ * Upazila functions for Bangladesh address data
+ * The 495 upazilas, their districts and full address hierarchy
+ */
+
+import type { District, Upazila, FullAddress, LocationOption } from '../types/location.types';
+import { findById, findByName, findBySlug, filterBy, getGroupIndex } from './lookup';
+import { createDivisionFunctions } from './divisions';
+import { createDistrictFunctions } from './districts';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+import upazilasJson from '../data/upazilas.json';
+
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+
+/**
+ * Build the upazila functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createUpazilaFunctions(dataset: LocationDataset) {
+  const upazilas = dataOf(dataset, 'upazila', upazilasData);
+  const { getDivisionById } = createDivisionFunctions(dataset);
+  const { getDistrictById, getDistrictBySlug } = createDistrictFunctions(dataset);
+
+  const getUpazilaById = (id: number): Readonly<Upazila> | undefined => findById(upazilas, id);
+  const getUpazilaBySlug = (slug: string): Readonly<Upazila> | undefined => findBySlug(upazilas, slug);
+  const getUpazilasByDistrict = (districtId: number): Readonly<Upazila>[] =>
+    filterBy(upazilas, 'districtId', districtId);
+  const getUpazilasByDivision = (divisionId: number): Readonly<Upazila>[] => {
+    const byDivision = getGroupIndex(upazilas, 'divisionId', (u) => getDistrictById(u.districtId)?.divisionId);
+    return [...(byDivision.get(divisionId) ?? [])];
+  };
+  const getDistrictOfUpazila = (upazilaId: number): Readonly<District> | undefined => {
+    const upazila = getUpazilaById(upazilaId);
+    if (!upazila) return undefined;
+    return getDistrictById(upazila.districtId);
+  };
+  const getFullAddress = (upazilaId: number): FullAddress | undefined => {
+    const upazila = getUpazilaById(upazilaId);
+    if (!upazila) return undefined;
+
+    const district = getDistrictById(upazila.districtId);
+    if (!district) return undefined;
+
+    const division = getDivisionById(district.divisionId);
+    if (!division) return undefined;
+
+    return { division, district, upazila };
+  };
+
+  return {
+    getAllUpazilas: (): Readonly<Upazila>[] => [...upazilas],
+    getUpazilaById,
+    getUpazilaBySlug,
+    getUpazilaByName: (name: string): Readonly<Upazila> | undefined => findByName(upazilas, name),
+    getUpazilasByDistrict,
+    getUpazilasByDistrictSlug: (districtSlug: string): Readonly<Upazila>[] => {
+      const district = getDistrictBySlug(districtSlug);
+      if (!district) return [];
+      return getUpazilasByDistrict(district.id);
+    },
+    getUpazilasByDivision,
+    getDistrictOfUpazila,
+    getFullAddress,
+    getFullAddressBySlug: (upazilaSlug: string): FullAddress | undefined => {
+      const upazila = getUpazilaBySlug(upazilaSlug);
+      if (!upazila) return undefined;
+      return getFullAddress(upazila.id);
+    },
+    isValidUpazila: (id: number): boolean => getUpazilaById(id) !== undefined,
+    isUpazilaInDistrict: (upazilaId: number, districtId: number): boolean => {
+      const upazila = getUpazilaById(upazilaId);
+      return upazila !== undefined && upazila.districtId === districtId;
+    },
+    isUpazilaInDivision: (upazilaId: number, divisionId: number): boolean => {
+      const district = getDistrictOfUpazila(upazilaId);
+      return district !== undefined && district.divisionId === divisionId;
+    },
+    getUpazilaCount: (districtId: number): number => getUpazilasByDistrict(districtId).length,
+    getUpazilaCountByDivision: (divisionId: number): number => getUpazilasByDivision(divisionId).length,
+    getUpazilaNames: (language: 'en' | 'bn' = 'en'): string[] =>
+      upazilas.map((u) => (language === 'bn' ? u.bnName : u.name)),
+    getUpazilaOptions: (districtId?: number): LocationOption[] => {
+      const data = districtId
+        ? getUpazilasByDistrict(districtId)
+        : upazilas;
+      return data.map((u) => ({
+        value: u.slug,
+        label: u.name,
+        labelBn: u.bnName,
+        ...(u.meta !== undefined && { meta: u.meta }),
+      }));
+    },
+    getRawUpazilas: (): ReadonlyArray<Readonly<Upazila>> => upazilas,
+  };
+}
+
+const bundled = createUpazilaFunctions(bundledDataset);
+
+/**
+ * Get all upazilas
+ * @returns Array of all 495 upazilas of Bangladesh
+ */
+export function getAllUpazilas(): Readonly<Upazila>[] {
+  return bundled.getAllUpazilas();
+}
+
+/**
+ * Get an upazila by ID
+ * @param id - Upazila ID
+ * @returns Upazila or undefined
+ */
+export function getUpazilaById(id: number): Readonly<Upazila> | undefined {
+  return bundled.getUpazilaById(id);
+}
+
+/**
+ * Get an upazila by slug
+ * @param slug - Upazila slug
+ * @returns Upazila or undefined
+ */
+export function getUpazilaBySlug(slug: string): Readonly<Upazila> | undefined {
+  return bundled.getUpazilaBySlug(slug);
+}
+
+/**
+ * Get an upazila by name (English or Bengali), including former names
+ * @param name - Upazila name or alias
+ * @returns Upazila or undefined
+ */
+export function getUpazilaByName(name: string): Readonly<Upazila> | undefined {
+  return bundled.getUpazilaByName(name);
+}
+
+/**
+ * Get all upazilas in a district
+ * @param districtId - District ID
+ * @returns Array of upazilas
+ */
+export function getUpazilasByDistrict(districtId: number): Readonly<Upazila>[] {
+  return bundled.getUpazilasByDistrict(districtId);
+}
+
+/**
+ * Get all upazilas in a district by district slug
+ * @param districtSlug - District slug
+ * @returns Array of upazilas
+ */
+export function getUpazilasByDistrictSlug(districtSlug: string): Readonly<Upazila>[] {
+  return bundled.getUpazilasByDistrictSlug(districtSlug);
+}
+
+/**
+ * Get all upazilas in a division
+ * @param divisionId - Division ID
+ * @returns Array of upazilas
+ */
+export function getUpazilasByDivision(divisionId: number): Readonly<Upazila>[] {
+  return bundled.getUpazilasByDivision(divisionId);
+}
+
+/**
+ * Get the parent district of an upazila
+ * @param upazilaId - Upazila ID
+ * @returns District or undefined
+ */
+export function getDistrictOfUpazila(upazilaId: number): Readonly<District> | undefined {
+  return bundled.getDistrictOfUpazila(upazilaId);
+}
+
+/**
+ * Get the full address hierarchy for an upazila
+ * @param upazilaId - Upazila ID
+ * @returns FullAddress or undefined
+ */
+export function getFullAddress(upazilaId: number): FullAddress | undefined {
+  return bundled.getFullAddress(upazilaId);
+}
+
+/**
+ * Get full address by upazila slug
+ * @param upazilaSlug - Upazila slug
+ * @returns FullAddress or undefined
+ */
+export function getFullAddressBySlug(upazilaSlug: string): FullAddress | undefined {
+  return bundled.getFullAddressBySlug(upazilaSlug);
+}
+
+/**
+ * Check if an upazila ID is valid
+ * @param id - Upazila ID to check
+ * @returns boolean
+ */
+export function isValidUpazila(id: number): boolean {
+  return bundled.isValidUpazila(id);
+}
+
+/**
+ * Check if an upazila belongs to a district
+ * @param upazilaId - Upazila ID
+ * @param districtId - District ID
+ * @returns boolean
+ */
+export function isUpazilaInDistrict(upazilaId: number, districtId: number): boolean {
+  return bundled.isUpazilaInDistrict(upazilaId, districtId);
+}
+
+/**
+ * Check if an upazila belongs to a division
+ * @param upazilaId - Upazila ID
+ * @param divisionId - Division ID
+ * @returns boolean
+ */
+export function isUpazilaInDivision(upazilaId: number, divisionId: number): boolean {
+  return bundled.isUpazilaInDivision(upazilaId, divisionId);
+}
+
+/**
+ * Get upazila count for a district
+ * @param districtId - District ID
+ * @returns Number of upazilas
+ */
+export function getUpazilaCount(districtId: number): number {
+  return bundled.getUpazilaCount(districtId);
+}
+
+/**
+ * Get upazila count for a division
+ * @param divisionId - Division ID
+ * @returns Number of upazilas
+ */
+export function getUpazilaCountByDivision(divisionId: number): number {
+  return bundled.getUpazilaCountByDivision(divisionId);
+}
+
+/**
+ * Get list of upazila names
+ * @param language - 'en' for English, 'bn' for Bengali
+ * @returns Array of upazila names
+ */
+export function getUpazilaNames(language: 'en' | 'bn' = 'en'): string[] {
+  return bundled.getUpazilaNames(language);
+}
+
+/**
+ * Get dropdown options for upazilas
+ * @param districtId - Optional district ID to filter by
+ * @returns Array of { value, label, labelBn, meta? } objects
+ */
+export function getUpazilaOptions(
+  districtId?: number
+): LocationOption[] {
+  return bundled.getUpazilaOptions(districtId);
+}
+
+/** Get raw upazilas data */
+export function getRawUpazilas(): ReadonlyArray<Readonly<Upazila>> {
+  return bundled.getRawUpazilas();
+}
+
+export default {
+  getAllUpazilas,
+  getUpazilaById,
+  getUpazilaBySlug,
+  getUpazilaByName,
+  getUpazilasByDistrict,
+  getUpazilasByDistrictSlug,
+  getUpazilasByDivision,
+  getDistrictOfUpazila,
+  getFullAddress,
+  getFullAddressBySlug,
+  isValidUpazila,
+  isUpazilaInDistrict,
+  isUpazilaInDivision,
+  getUpazilaCount,
+  getUpazilaCountByDivision,
+  getUpazilaNames,
+  getUpazilaOptions,
+  getRawUpazilas,
+};
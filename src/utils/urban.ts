@@ -0,0 +1,564 @@
+/**
+ * Urban area functions for Bangladesh address data
+ * City corporations, municipalities (pourashavas), their wards and the
+ * metropolitan thanas, with their place in the address hierarchy
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  CityCorporation,
+  Municipality,
+  Ward,
+  Thana,
+  AreaType,
+  FullAddress,
+  UrbanAddress,
+  LocationType,
+  LocationStats,
+} from '../types/location.types';
+import { findById, findByName, findBySlug, filterBy, getGroupIndex } from './lookup';
+import { createDivisionFunctions } from './divisions';
+import { createDistrictFunctions } from './districts';
+import { createUpazilaFunctions } from './upazilas';
+import { createUnionFunctions } from './unions';
+import { freezeData } from './freeze';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+// Static data imports (bundled for compatibility)
+import divisionsJson from '../data/divisions.json';
+import districtsJson from '../data/districts.json';
+import upazilasJson from '../data/upazilas.json';
+import unionsJson from '../data/unions.json';
+import cityCorporationsJson from '../data/city-corporations.json';
+import municipalitiesJson from '../data/municipalities.json';
+import wardsJson from '../data/wards.json';
+import thanasJson from '../data/thanas.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+const districtsData = freezeData(districtsJson as District[]);
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+const unionsData = freezeData(unionsJson as Union[]);
+const cityCorporationsData = freezeData(cityCorporationsJson as CityCorporation[]);
+const municipalitiesData = freezeData(municipalitiesJson as Municipality[]);
+const wardsData = freezeData(wardsJson as Ward[]);
+const thanasData = freezeData(thanasJson as Thana[]);
+
+/**
+ * Build the urban area functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createUrbanFunctions(dataset: LocationDataset) {
+  const divisions = dataOf(dataset, 'division', divisionsData);
+  const districts = dataOf(dataset, 'district', districtsData);
+  const upazilas = dataOf(dataset, 'upazila', upazilasData);
+  const unions = dataOf(dataset, 'union', unionsData);
+  const cityCorporations = dataOf(dataset, 'cityCorporation', cityCorporationsData);
+  const municipalities = dataOf(dataset, 'municipality', municipalitiesData);
+  const wards = dataOf(dataset, 'ward', wardsData);
+  const thanas = dataOf(dataset, 'thana', thanasData);
+  const { getDivisionById } = createDivisionFunctions(dataset);
+  const { getDistrictById } = createDistrictFunctions(dataset);
+  const { getUpazilaById, getFullAddress } = createUpazilaFunctions(dataset);
+  const { getUnionById } = createUnionFunctions(dataset);
+
+  const getAllCityCorporations = (): Readonly<CityCorporation>[] => [...cityCorporations];
+
+  const getAllMunicipalities = (): Readonly<Municipality>[] => [...municipalities];
+
+  const getAllWards = (): Readonly<Ward>[] => [...wards];
+
+  const getAllThanas = (): Readonly<Thana>[] => [...thanas];
+
+  const getCityCorporationById = (id: number): Readonly<CityCorporation> | undefined => findById(cityCorporations, id);
+
+  const getCityCorporationBySlug = (slug: string): Readonly<CityCorporation> | undefined => findBySlug(cityCorporations, slug);
+
+  const getCityCorporationByName = (name: string): Readonly<CityCorporation> | undefined => findByName(cityCorporations, name);
+
+  const getCityCorporationsByDistrict = (districtId: number): Readonly<CityCorporation>[] => filterBy(cityCorporations, 'districtId', districtId);
+
+  const getMunicipalityById = (id: number): Readonly<Municipality> | undefined => findById(municipalities, id);
+
+  const getMunicipalityBySlug = (slug: string): Readonly<Municipality> | undefined => findBySlug(municipalities, slug);
+
+  const getMunicipalityByName = (name: string): Readonly<Municipality> | undefined => findByName(municipalities, name);
+
+  const getMunicipalitiesByDistrict = (districtId: number): Readonly<Municipality>[] => filterBy(municipalities, 'districtId', districtId);
+
+  const getMunicipalitiesByUpazila = (upazilaId: number): Readonly<Municipality>[] => filterBy(municipalities, 'upazilaId', upazilaId);
+
+  const getWardById = (id: number): Readonly<Ward> | undefined => findById(wards, id);
+
+  const getWardBySlug = (slug: string): Readonly<Ward> | undefined => findBySlug(wards, slug);
+
+  const getWardsByCityCorporation = (cityCorporationId: number): Readonly<Ward>[] => filterBy(wards, 'cityCorporationId', cityCorporationId);
+
+  const getWardsByMunicipality = (municipalityId: number): Readonly<Ward>[] => filterBy(wards, 'municipalityId', municipalityId);
+
+  const getAreaType = (type: LocationType, id: number): AreaType | undefined => {
+    switch (type) {
+      case 'cityCorporation':
+        return getCityCorporationById(id) ? 'urban' : undefined;
+      case 'municipality':
+        return getMunicipalityById(id) ? 'urban' : undefined;
+      case 'ward':
+        return getWardById(id) ? 'urban' : undefined;
+      case 'thana':
+        return getThanaById(id) ? 'urban' : undefined;
+      case 'union':
+        return getUnionById(id) ? 'rural' : undefined;
+      case 'upazila':
+        if (!getUpazilaById(id)) return undefined;
+        return getMunicipalitiesByUpazila(id).length > 0 ? 'mixed' : 'rural';
+      case 'district':
+        if (!getDistrictById(id)) return undefined;
+        return getCityCorporationsByDistrict(id).length > 0 || getMunicipalitiesByDistrict(id).length > 0
+          ? 'mixed'
+          : 'rural';
+      case 'division':
+        if (!getDivisionById(id)) return undefined;
+        return filterBy(districts, 'divisionId', id).some((d) => getAreaType('district', d.id) === 'mixed')
+          ? 'mixed'
+          : 'rural';
+    }
+  };
+
+  const getThanaById = (id: number): Readonly<Thana> | undefined => findById(thanas, id);
+
+  const getThanaBySlug = (slug: string): Readonly<Thana> | undefined => findBySlug(thanas, slug);
+
+  const getThanaByName = (name: string, districtId?: number): Readonly<Thana> | undefined => {
+    const candidates =
+      districtId !== undefined
+        ? (getGroupIndex(thanas, 'districtId', (t) => t.districtId).get(districtId) ?? [])
+        : thanas;
+    return findByName(candidates, name);
+  };
+
+  const getThanasByDistrict = (districtId: number): Readonly<Thana>[] => filterBy(thanas, 'districtId', districtId);
+
+  const getThanasByCityCorporation = (cityCorporationId: number): Readonly<Thana>[] => filterBy(thanas, 'cityCorporationId', cityCorporationId);
+
+  const getFullAddressOfMunicipality = (municipalityId: number): FullAddress | undefined => {
+    const municipality = getMunicipalityById(municipalityId);
+    if (!municipality) return undefined;
+
+    const address = getFullAddress(municipality.upazilaId);
+    if (!address) return undefined;
+
+    return { ...address, municipality };
+  };
+
+  const getFullAddressOfWard = (wardId: number): UrbanAddress | undefined => {
+    const ward = getWardById(wardId);
+    if (!ward) return undefined;
+
+    if (ward.municipalityId !== undefined) {
+      const address = getFullAddressOfMunicipality(ward.municipalityId);
+      if (!address) return undefined;
+      const { division, district, upazila, municipality } = address;
+      return { division, district, upazila, municipality, ward };
+    }
+
+    const cityCorporation =
+      ward.cityCorporationId !== undefined ? getCityCorporationById(ward.cityCorporationId) : undefined;
+    if (!cityCorporation) return undefined;
+
+    const district = getDistrictById(cityCorporation.districtId);
+    if (!district) return undefined;
+
+    const division = getDivisionById(district.divisionId);
+    if (!division) return undefined;
+
+    return { division, district, cityCorporation, ward };
+  };
+
+  const getFullAddressOfThana = (thanaId: number): UrbanAddress | undefined => {
+    const thana = getThanaById(thanaId);
+    if (!thana) return undefined;
+
+    const district = getDistrictById(thana.districtId);
+    if (!district) return undefined;
+
+    const division = getDivisionById(district.divisionId);
+    if (!division) return undefined;
+
+    const cityCorporation = getCityCorporationById(thana.cityCorporationId);
+
+    return { division, district, cityCorporation, thana };
+  };
+
+  const getStats = (): LocationStats => {
+    const divisionDistrictMap: Record<number, number> = {};
+    const districtUpazilaMap: Record<number, number> = {};
+    const upazilaUnionMap: Record<number, number> = {};
+
+    for (const district of districts) {
+      divisionDistrictMap[district.divisionId] =
+        (divisionDistrictMap[district.divisionId] || 0) + 1;
+    }
+
+    for (const upazila of upazilas) {
+      districtUpazilaMap[upazila.districtId] =
+        (districtUpazilaMap[upazila.districtId] || 0) + 1;
+    }
+
+    for (const union of unions) {
+      upazilaUnionMap[union.upazilaId] =
+        (upazilaUnionMap[union.upazilaId] || 0) + 1;
+    }
+
+    return {
+      totalDivisions: divisions.length,
+      totalDistricts: districts.length,
+      totalUpazilas: upazilas.length,
+      totalUnions: unions.length,
+      totalCityCorporations: cityCorporations.length,
+      totalMunicipalities: municipalities.length,
+      totalWards: wards.length,
+      totalThanas: thanas.length,
+      divisionDistrictMap,
+      districtUpazilaMap,
+      upazilaUnionMap,
+    };
+  };
+
+  const getRawCityCorporations = (): ReadonlyArray<Readonly<CityCorporation>> => cityCorporations;
+
+  const getRawMunicipalities = (): ReadonlyArray<Readonly<Municipality>> => municipalities;
+
+  const getRawWards = (): ReadonlyArray<Readonly<Ward>> => wards;
+
+  const getRawThanas = (): ReadonlyArray<Readonly<Thana>> => thanas;
+
+  return {
+    getAllCityCorporations,
+    getAllMunicipalities,
+    getAllWards,
+    getAllThanas,
+    getCityCorporationById,
+    getCityCorporationBySlug,
+    getCityCorporationByName,
+    getCityCorporationsByDistrict,
+    getMunicipalityById,
+    getMunicipalityBySlug,
+    getMunicipalityByName,
+    getMunicipalitiesByDistrict,
+    getMunicipalitiesByUpazila,
+    getWardById,
+    getWardBySlug,
+    getWardsByCityCorporation,
+    getWardsByMunicipality,
+    getAreaType,
+    getThanaById,
+    getThanaBySlug,
+    getThanaByName,
+    getThanasByDistrict,
+    getThanasByCityCorporation,
+    getFullAddressOfMunicipality,
+    getFullAddressOfWard,
+    getFullAddressOfThana,
+    getStats,
+    getRawCityCorporations,
+    getRawMunicipalities,
+    getRawWards,
+    getRawThanas,
+  };
+}
+
+const bundled = createUrbanFunctions(bundledDataset);
+
+/**
+ * Get all city corporations
+ * @returns Array of all 12 city corporations of Bangladesh
+ */
+export function getAllCityCorporations(): Readonly<CityCorporation>[] {
+  return bundled.getAllCityCorporations();
+}
+
+/**
+ * Get all municipalities (pourashavas)
+ * @returns Array of all municipalities in the dataset
+ */
+export function getAllMunicipalities(): Readonly<Municipality>[] {
+  return bundled.getAllMunicipalities();
+}
+
+/**
+ * Get all wards
+ * @returns Array of all city corporation and municipality wards in the dataset
+ */
+export function getAllWards(): Readonly<Ward>[] {
+  return bundled.getAllWards();
+}
+
+/**
+ * Get all metropolitan thanas
+ * @returns Array of all metropolitan thanas in the dataset
+ */
+export function getAllThanas(): Readonly<Thana>[] {
+  return bundled.getAllThanas();
+}
+
+/**
+ * Get a city corporation by ID
+ * @param id - City corporation ID
+ * @returns CityCorporation or undefined
+ */
+export function getCityCorporationById(id: number): Readonly<CityCorporation> | undefined {
+  return bundled.getCityCorporationById(id);
+}
+
+/**
+ * Get a city corporation by slug
+ * @param slug - City corporation slug (e.g., "dhaka_north_city_corporation")
+ * @returns CityCorporation or undefined
+ */
+export function getCityCorporationBySlug(slug: string): Readonly<CityCorporation> | undefined {
+  return bundled.getCityCorporationBySlug(slug);
+}
+
+/**
+ * Get a city corporation by name (English or Bengali), including former names
+ * @param name - City corporation name or alias
+ * @returns CityCorporation or undefined
+ */
+export function getCityCorporationByName(name: string): Readonly<CityCorporation> | undefined {
+  return bundled.getCityCorporationByName(name);
+}
+
+/**
+ * Get all city corporations in a district
+ * @param districtId - District ID
+ * @returns Array of city corporations
+ */
+export function getCityCorporationsByDistrict(districtId: number): Readonly<CityCorporation>[] {
+  return bundled.getCityCorporationsByDistrict(districtId);
+}
+
+/**
+ * Get a municipality (pourashava) by ID
+ * @param id - Municipality ID
+ * @returns Municipality or undefined
+ */
+export function getMunicipalityById(id: number): Readonly<Municipality> | undefined {
+  return bundled.getMunicipalityById(id);
+}
+
+/**
+ * Get a municipality by slug
+ * @param slug - Municipality slug (e.g., "bogura_pourashava")
+ * @returns Municipality or undefined
+ */
+export function getMunicipalityBySlug(slug: string): Readonly<Municipality> | undefined {
+  return bundled.getMunicipalityBySlug(slug);
+}
+
+/**
+ * Get a municipality by name (English or Bengali), including former names
+ * @param name - Municipality name or alias
+ * @returns Municipality or undefined
+ */
+export function getMunicipalityByName(name: string): Readonly<Municipality> | undefined {
+  return bundled.getMunicipalityByName(name);
+}
+
+/**
+ * Get all municipalities in a district
+ * @param districtId - District ID
+ * @returns Array of municipalities
+ */
+export function getMunicipalitiesByDistrict(districtId: number): Readonly<Municipality>[] {
+  return bundled.getMunicipalitiesByDistrict(districtId);
+}
+
+/**
+ * Get all municipalities in an upazila
+ * @param upazilaId - Upazila ID
+ * @returns Array of municipalities
+ */
+export function getMunicipalitiesByUpazila(upazilaId: number): Readonly<Municipality>[] {
+  return bundled.getMunicipalitiesByUpazila(upazilaId);
+}
+
+/**
+ * Get a ward by ID
+ * @param id - Ward ID
+ * @returns Ward or undefined
+ */
+export function getWardById(id: number): Readonly<Ward> | undefined {
+  return bundled.getWardById(id);
+}
+
+/**
+ * Get a ward by slug
+ * @param slug - Ward slug (e.g., "dhaka_north_ward_1")
+ * @returns Ward or undefined
+ */
+export function getWardBySlug(slug: string): Readonly<Ward> | undefined {
+  return bundled.getWardBySlug(slug);
+}
+
+/**
+ * Get all wards of a city corporation
+ * @param cityCorporationId - City corporation ID
+ * @returns Array of wards, in ward number order
+ */
+export function getWardsByCityCorporation(cityCorporationId: number): Readonly<Ward>[] {
+  return bundled.getWardsByCityCorporation(cityCorporationId);
+}
+
+/**
+ * Tell whether a location is urban, rural or contains both.
+ * City corporations, municipalities, wards and thanas are urban and unions are
+ * rural; an upazila, district or division is mixed when it contains a city
+ * corporation or municipality and rural otherwise.
+ * @param type - Location type
+ * @param id - Location ID
+ * @returns AreaType or undefined if the location doesn't exist
+ */
+export function getAreaType(type: LocationType, id: number): AreaType | undefined {
+  return bundled.getAreaType(type, id);
+}
+
+/**
+ * Get a metropolitan thana by ID
+ * @param id - Thana ID
+ * @returns Thana or undefined
+ */
+export function getThanaById(id: number): Readonly<Thana> | undefined {
+  return bundled.getThanaById(id);
+}
+
+/**
+ * Get a metropolitan thana by slug
+ * @param slug - Thana slug (e.g., "mirpur", or "kotwali_chattogram" where names repeat across cities)
+ * @returns Thana or undefined
+ */
+export function getThanaBySlug(slug: string): Readonly<Thana> | undefined {
+  return bundled.getThanaBySlug(slug);
+}
+
+/**
+ * Get a metropolitan thana by name (English or Bengali), including former names.
+ * Names like "Kotwali" exist in several metropolitan areas; pass a district to pick one.
+ * @param name - Thana name or alias
+ * @param districtId - Optional district ID to search in
+ * @returns Thana or undefined
+ */
+export function getThanaByName(name: string, districtId?: number): Readonly<Thana> | undefined {
+  return bundled.getThanaByName(name, districtId);
+}
+
+/**
+ * Get all metropolitan thanas in a district
+ * @param districtId - District ID
+ * @returns Array of thanas
+ */
+export function getThanasByDistrict(districtId: number): Readonly<Thana>[] {
+  return bundled.getThanasByDistrict(districtId);
+}
+
+/**
+ * Get all metropolitan thanas of a city corporation
+ * @param cityCorporationId - City corporation ID
+ * @returns Array of thanas
+ */
+export function getThanasByCityCorporation(cityCorporationId: number): Readonly<Thana>[] {
+  return bundled.getThanasByCityCorporation(cityCorporationId);
+}
+
+/**
+ * Get the full address hierarchy for a municipality
+ * @param municipalityId - Municipality ID
+ * @returns FullAddress with municipality or undefined
+ */
+export function getFullAddressOfMunicipality(municipalityId: number): FullAddress | undefined {
+  return bundled.getFullAddressOfMunicipality(municipalityId);
+}
+
+/**
+ * Get the address hierarchy for a city corporation or municipality ward.
+ * City corporations are not part of an upazila, so `upazila` is only set
+ * for municipality wards.
+ * @param wardId - Ward ID
+ * @returns UrbanAddress or undefined
+ */
+export function getFullAddressOfWard(wardId: number): UrbanAddress | undefined {
+  return bundled.getFullAddressOfWard(wardId);
+}
+
+/**
+ * Get the address hierarchy for a metropolitan thana
+ * (e.g. "Mirpur, Dhaka" -> Dhaka division, Dhaka district, Dhaka North City Corporation, Mirpur)
+ * @param thanaId - Thana ID
+ * @returns UrbanAddress or undefined
+ */
+export function getFullAddressOfThana(thanaId: number): UrbanAddress | undefined {
+  return bundled.getFullAddressOfThana(thanaId);
+}
+
+/**
+ * Get statistics about the location data
+ * @returns LocationStats object
+ */
+export function getStats(): LocationStats {
+  return bundled.getStats();
+}
+
+/** Get raw city corporations data */
+export function getRawCityCorporations(): ReadonlyArray<Readonly<CityCorporation>> {
+  return bundled.getRawCityCorporations();
+}
+
+/** Get raw municipalities data */
+export function getRawMunicipalities(): ReadonlyArray<Readonly<Municipality>> {
+  return bundled.getRawMunicipalities();
+}
+
+/** Get raw wards data */
+export function getRawWards(): ReadonlyArray<Readonly<Ward>> {
+  return bundled.getRawWards();
+}
+
+/** Get raw metropolitan thanas data */
+export function getRawThanas(): ReadonlyArray<Readonly<Thana>> {
+  return bundled.getRawThanas();
+}
+
+export default {
+  getAllCityCorporations,
+  getAllMunicipalities,
+  getAllWards,
+  getAllThanas,
+  getCityCorporationById,
+  getCityCorporationBySlug,
+  getCityCorporationByName,
+  getCityCorporationsByDistrict,
+  getMunicipalityById,
+  getMunicipalityBySlug,
+  getMunicipalityByName,
+  getMunicipalitiesByDistrict,
+  getMunicipalitiesByUpazila,
+  getWardById,
+  getWardBySlug,
+  getWardsByCityCorporation,
+  getAreaType,
+  getThanaById,
+  getThanaBySlug,
+  getThanaByName,
+  getThanasByDistrict,
+  getThanasByCityCorporation,
+  getFullAddressOfMunicipality,
+  getFullAddressOfWard,
+  getFullAddressOfThana,
+  getStats,
+  getRawCityCorporations,
+  getRawMunicipalities,
+  getRawWards,
+  getRawThanas,
+};
@@ -0,0 +1,70 @@
+/**
+ * Valibot schema for Bangladesh address payloads
+ * Requires the optional `valibot` peer dependency (v1)
+ */
+
+import * as v from 'valibot';
+import {
+  defaultAddressSchemaOptions,
+  getAddressEnumValues,
+  getInvalidValueMessage,
+  checkAddressPayload,
+  POSTAL_CODE_PATTERN,
+} from './schema';
+import type { AddressSchemaOptions, AddressPayloadField } from './schema';
+
+const PAYLOAD_FIELDS: AddressPayloadField[] = ['division', 'district', 'upazila', 'union', 'postalCode'];
+
+/**
+ * Create a Valibot schema for address payloads. Allowed slugs come from the
+ * bundled data; a check requires each level to belong to the level above
+ * and the postal code to fit the district.
+ * @param options - Require union/postal code, message language
+ * @returns Valibot object schema
+ */
+export function createAddressSchema(options?: AddressSchemaOptions) {
+  const opts = { ...defaultAddressSchemaOptions, ...options };
+  const values = getAddressEnumValues();
+  const message = (field: AddressPayloadField) => getInvalidValueMessage(field, opts.language);
+
+  const union = v.picklist(values.union, message('union'));
+  const postalCode = v.pipe(
+    v.string(message('postalCode')),
+    v.regex(new RegExp(POSTAL_CODE_PATTERN), message('postalCode'))
+  );
+
+  // Missing keys are reported by the object schema; word them like invalid values
+  const missingKeyMessage = (issue: v.ObjectIssue) => {
+    const key = issue.path?.[issue.path.length - 1]?.key;
+    return PAYLOAD_FIELDS.includes(key as AddressPayloadField)
+      ? message(key as AddressPayloadField)
+      : issue.message;
+  };
+
+  return v.pipe(
+    v.object(
+      {
+        division: v.picklist(values.division, message('division')),
+        district: v.picklist(values.district, message('district')),
+        upazila: v.picklist(values.upazila, message('upazila')),
+        union: opts.requireUnion ? union : v.optional(union),
+        postalCode: opts.requirePostalCode ? postalCode : v.optional(postalCode),
+      },
+      missingKeyMessage
+    ),
+    v.rawCheck(({ dataset, addIssue }) => {
+      if (!dataset.typed) return;
+      const payload = dataset.value;
+      for (const issue of checkAddressPayload(payload, opts.language)) {
+        addIssue({
+          message: issue.message,
+          path: [{ type: 'object', origin: 'value', input: payload, key: issue.field, value: payload[issue.field] }],
+        });
+      }
+    })
+  );
+}
+
+export default {
+  createAddressSchema,
+};
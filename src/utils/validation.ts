@@ -0,0 +1,289 @@
+/**
+ * Address validation for Bangladesh address data
+ * Checks stored address ids for existence, parent/child consistency and
+ * postal code agreement, reporting structured errors in English and Bengali
+ */
+
+import type {
+  Division,
+  District,
+  Upazila,
+  Union,
+  PostOffice,
+} from '../types/location.types';
+import { normalizeText } from './normalize';
+import { freezeData } from './freeze';
+import { findById, filterBy } from './lookup';
+import { bundledDataset, dataOf } from './dataset';
+import type { LocationDataset } from './dataset';
+
+// Static data imports (bundled for compatibility)
+import divisionsJson from '../data/divisions.json';
+import districtsJson from '../data/districts.json';
+import upazilasJson from '../data/upazilas.json';
+import unionsJson from '../data/unions.json';
+import postOfficesJson from '../data/post-offices.json';
+
+const divisionsData = freezeData(divisionsJson as Division[]);
+const districtsData = freezeData(districtsJson as District[]);
+const upazilasData = freezeData(upazilasJson as Upazila[]);
+const unionsData = freezeData(unionsJson as Union[]);
+const postOfficesData = freezeData(postOfficesJson as PostOffice[]);
+
+/**
+ * Address as stored by id
+ */
+export interface AddressInput {
+  divisionId?: number;
+  districtId?: number;
+  upazilaId?: number;
+  unionId?: number;
+  postalCode?: string;
+}
+
+/** Field of an AddressInput */
+export type AddressField = keyof AddressInput;
+
+/**
+ * Kind of validation error
+ * - `REQUIRED`: a required field (or the parent of a given field) is missing
+ * - `NOT_FOUND`: no location with this id exists
+ * - `PARENT_MISMATCH`: the location does not belong to the given parent
+ * - `INVALID_POSTAL_CODE`: the postal code is not 4 digits
+ * - `POSTAL_CODE_MISMATCH`: the postal code belongs to another area
+ */
+export type AddressErrorCode =
+  | 'REQUIRED'
+  | 'NOT_FOUND'
+  | 'PARENT_MISMATCH'
+  | 'INVALID_POSTAL_CODE'
+  | 'POSTAL_CODE_MISMATCH';
+
+/**
+ * A single validation error
+ */
+export interface AddressValidationError {
+  code: AddressErrorCode;
+  /** Field the error is about */
+  field: AddressField;
+  /** English message */
+  message: string;
+  /** Bengali message */
+  bnMessage: string;
+  /** Suggested correction, when one follows from the other fields */
+  suggestion?: {
+    field: AddressField;
+    value: number | string;
+  };
+}
+
+/**
+ * Result of validateAddress
+ */
+export interface AddressValidationResult {
+  valid: boolean;
+  errors: AddressValidationError[];
+}
+
+/**
+ * Validation options interface
+ */
+export interface ValidateAddressOptions {
+  /** Fields that must be present */
+  required?: AddressField[];
+}
+
+const defaultValidateOptions: Required<ValidateAddressOptions> = {
+  required: ['divisionId', 'districtId', 'upazilaId'],
+};
+
+type Level = 'division' | 'district' | 'upazila' | 'union';
+
+const LEVEL_FIELDS: Record<Level, AddressField> = {
+  division: 'divisionId',
+  district: 'districtId',
+  upazila: 'upazilaId',
+  union: 'unionId',
+};
+
+// Level names for messages; `bnOf` is the Bengali genitive ("of the district")
+const LEVEL_NAMES: Record<Level, { en: string; bn: string; bnOf: string }> = {
+  division: { en: 'Division', bn: 'বিভাগ', bnOf: 'বিভাগের' },
+  district: { en: 'District', bn: 'জেলা', bnOf: 'জেলার' },
+  upazila: { en: 'Upazila', bn: 'উপজেলা', bnOf: 'উপজেলার' },
+  union: { en: 'Union', bn: 'ইউনিয়ন', bnOf: 'ইউনিয়নের' },
+};
+
+const POSTAL_CODE_NAME = { en: 'Postal code', bn: 'পোস্ট কোড' };
+
+type Named = { name: string; bnName: string };
+
+/**
+ * Check whether a postal code falls within a district range ("8700-8799")
+ */
+function isInRange(code: string, range: string | undefined): boolean {
+  if (!range) return false;
+  const [min, max] = range.split('-').map(Number);
+  const value = Number(code);
+  return min !== undefined && max !== undefined && value >= min && value <= max;
+}
+
+/**
+ * Build the validation functions over a dataset
+ * @param dataset - Datasets by location type (an address book's, or the bundled data)
+ */
+export function createValidationFunctions(dataset: LocationDataset) {
+  const divisions = dataOf(dataset, 'division', divisionsData);
+  const districts = dataOf(dataset, 'district', districtsData);
+  const upazilas = dataOf(dataset, 'upazila', upazilasData);
+  const unions = dataOf(dataset, 'union', unionsData);
+
+  return {
+    validateAddress: (input: AddressInput, options?: ValidateAddressOptions): AddressValidationResult => {
+      const opts = { ...defaultValidateOptions, ...options };
+      const errors: AddressValidationError[] = [];
+
+      const division = input.divisionId !== undefined ? findById(divisions, input.divisionId) : undefined;
+      const district = input.districtId !== undefined ? findById(districts, input.districtId) : undefined;
+      const upazila = input.upazilaId !== undefined ? findById(upazilas, input.upazilaId) : undefined;
+      const union = input.unionId !== undefined ? findById(unions, input.unionId) : undefined;
+
+      // Parent id implied by the nearest child that exists
+      const parentUpazila = upazila ?? (union ? findById(upazilas, union.upazilaId) : undefined);
+      const parentDistrict =
+        district ?? (parentUpazila ? findById(districts, parentUpazila.districtId) : undefined);
+      const implied: Partial<Record<Level, number>> = {
+        upazila: union?.upazilaId,
+        district: parentUpazila?.districtId,
+        division: parentDistrict?.divisionId,
+      };
+
+      const levels: [Level, number | undefined, Named | undefined][] = [
+        ['division', input.divisionId, division],
+        ['district', input.districtId, district],
+        ['upazila', input.upazilaId, upazila],
+        ['union', input.unionId, union],
+      ];
+
+      // Existence and required fields
+      for (const [level, id, found] of levels) {
+        const field = LEVEL_FIELDS[level];
+        const label = LEVEL_NAMES[level];
+        const suggested = implied[level];
+        const suggestion = suggested !== undefined ? { field, value: suggested } : undefined;
+
+        if (id === undefined) {
+          if (opts.required.includes(field) || suggestion) {
+            errors.push({
+              code: 'REQUIRED',
+              field,
+              message: `${label.en} is required`,
+              bnMessage: `${label.bn} আবশ্যক`,
+              ...(suggestion && { suggestion }),
+            });
+          }
+        } else if (!found) {
+          errors.push({
+            code: 'NOT_FOUND',
+            field,
+            message: `${label.en} with id ${id} does not exist`,
+            bnMessage: `আইডি ${id} এর কোনো ${label.bn} নেই`,
+            ...(suggestion && { suggestion }),
+          });
+        }
+      }
+
+      // Parent/child consistency, reported on the child
+      const pairs: [Level, Named | undefined, number | undefined, Level, Named | undefined][] = [
+        ['district', district, district?.divisionId, 'division', division],
+        ['upazila', upazila, upazila?.districtId, 'district', district],
+        ['union', union, union?.upazilaId, 'upazila', upazila],
+      ];
+
+      for (const [level, child, parentId, parentLevel, parent] of pairs) {
+        if (!child || !parent || parentId === undefined) continue;
+        const givenParentId = input[LEVEL_FIELDS[parentLevel]];
+        if (parentId === givenParentId) continue;
+
+        errors.push({
+          code: 'PARENT_MISMATCH',
+          field: LEVEL_FIELDS[level],
+          message: `${LEVEL_NAMES[level].en} ${child.name} is not in ${LEVEL_NAMES[parentLevel].en.toLowerCase()} ${parent.name}`,
+          bnMessage: `${child.bnName} ${LEVEL_NAMES[level].bn} ${parent.bnName} ${LEVEL_NAMES[parentLevel].bnOf} অন্তর্ভুক্ত নয়`,
+          suggestion: { field: LEVEL_FIELDS[parentLevel], value: parentId },
+        });
+      }
+
+      // Postal code; untyped callers may pass it as a number
+      const postalCode =
+        input.postalCode !== undefined && input.postalCode !== null
+          ? normalizeText(String(input.postalCode))
+          : undefined;
+      const postalLabel = POSTAL_CODE_NAME;
+      const expectedCode = upazila?.postalCode;
+
+      if (postalCode === undefined || postalCode === '') {
+        if (opts.required.includes('postalCode')) {
+          errors.push({
+            code: 'REQUIRED',
+            field: 'postalCode',
+            message: `${postalLabel.en} is required`,
+            bnMessage: `${postalLabel.bn} আবশ্যক`,
+            ...(expectedCode && { suggestion: { field: 'postalCode' as const, value: expectedCode } }),
+          });
+        }
+      } else if (!/^\d{4}$/.test(postalCode)) {
+        errors.push({
+          code: 'INVALID_POSTAL_CODE',
+          field: 'postalCode',
+          message: `${postalLabel.en} must be 4 digits`,
+          bnMessage: `${postalLabel.bn} ৪ অঙ্কের হতে হবে`,
+          ...(expectedCode && { suggestion: { field: 'postalCode' as const, value: expectedCode } }),
+        });
+      } else {
+        // The district whose range the code should fall in: the given one, or the upazila's
+        const rangeDistrict = district ?? (upazila ? findById(districts, upazila.districtId) : undefined);
+        const knownOffice = filterBy(postOfficesData, 'code', postalCode).some((p) =>
+          upazila ? p.upazilaId === upazila.id : p.districtId === rangeDistrict?.id
+        );
+
+        if (rangeDistrict?.postalCode && !knownOffice && !isInRange(postalCode, rangeDistrict.postalCode)) {
+          errors.push({
+            code: 'POSTAL_CODE_MISMATCH',
+            field: 'postalCode',
+            message: `${postalLabel.en} ${postalCode} is outside the range of district ${rangeDistrict.name} (${rangeDistrict.postalCode})`,
+            bnMessage: `${postalLabel.bn} ${postalCode} ${rangeDistrict.bnName} জেলার পোস্ট কোড সীমার (${rangeDistrict.postalCode}) বাইরে`,
+            ...(expectedCode && { suggestion: { field: 'postalCode' as const, value: expectedCode } }),
+          });
+        }
+      }
+
+      return { valid: errors.length === 0, errors };
+    },
+  };
+}
+
+const bundled = createValidationFunctions(bundledDataset);
+
+/**
+ * Validate a stored address: every level's existence, parent/child
+ * consistency and the postal code.
+ *
+ * Parent/child errors are reported on the child field, with a suggestion
+ * for the parent that matches the child. A postal code is only rejected
+ * when it lies outside the district range, since an upazila has more post
+ * offices than the ones in the dataset.
+ * @param input - Address ids and postal code
+ * @param options - Required fields (default division, district and upazila)
+ * @returns Validation result with the list of errors
+ */
+export function validateAddress(
+  input: AddressInput,
+  options?: ValidateAddressOptions
+): AddressValidationResult {
+  return bundled.validateAddress(input, options);
+}
+
+export default {
+  validateAddress,
+};
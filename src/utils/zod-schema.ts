@@ -0,0 +1,52 @@
+/**
+ * Zod schema for Bangladesh address payloads
+ * Requires the optional `zod` peer dependency (v4)
+ */
+
+import { z } from 'zod';
+import {
+  defaultAddressSchemaOptions,
+  getAddressEnumValues,
+  getInvalidValueMessage,
+  checkAddressPayload,
+  POSTAL_CODE_PATTERN,
+} from './schema';
+import type { AddressSchemaOptions, AddressPayloadField } from './schema';
+
+type SlugEnum = [string, ...string[]];
+
+/**
+ * Create a Zod schema for address payloads. Allowed slugs come from the
+ * bundled data; a refinement requires each level to belong to the level
+ * above and the postal code to fit the district.
+ * @param options - Require union/postal code, message language
+ * @returns Zod object schema
+ */
+export function createAddressSchema(options?: AddressSchemaOptions) {
+  const opts = { ...defaultAddressSchemaOptions, ...options };
+  const values = getAddressEnumValues();
+  const error = (field: AddressPayloadField) => ({
+    error: getInvalidValueMessage(field, opts.language),
+  });
+
+  const union = z.enum(values.union as SlugEnum, error('union'));
+  const postalCode = z.string(error('postalCode')).regex(new RegExp(POSTAL_CODE_PATTERN), error('postalCode'));
+
+  return z
+    .object({
+      division: z.enum(values.division as SlugEnum, error('division')),
+      district: z.enum(values.district as SlugEnum, error('district')),
+      upazila: z.enum(values.upazila as SlugEnum, error('upazila')),
+      union: opts.requireUnion ? union : union.optional(),
+      postalCode: opts.requirePostalCode ? postalCode : postalCode.optional(),
+    })
+    .superRefine((payload, ctx) => {
+      for (const issue of checkAddressPayload(payload, opts.language)) {
+        ctx.addIssue({ code: 'custom', path: [issue.field], message: issue.message });
+      }
+    });
+}
+
+export default {
+  createAddressSchema,
+};
@@ -0,0 +1,16 @@
+/**
+ * bd-address-pro/valibot
+ * Valibot schema for address payloads. A separate entry point, so only apps
+ * that import it need the optional `valibot` peer dependency:
+ *
+ *   import { createAddressSchema } from 'bd-address-pro/valibot';
+ */
+
+export { createAddressSchema } from './utils/valibot-schema';
+
+export type {
+  AddressPayload,
+  AddressPayloadField,
+  AddressSchemaOptions,
+  SchemaLanguage,
+} from './utils/schema';
@@ -0,0 +1,16 @@
+/**
+ * bd-address-pro/zod
+ * Zod schema for address payloads. A separate entry point, so only apps
+ * that import it need the optional `zod` peer dependency:
+ *
+ *   import { createAddressSchema } from 'bd-address-pro/zod';
+ */
+
+export { createAddressSchema } from './utils/zod-schema';
+
+export type {
+  AddressPayload,
+  AddressPayloadField,
+  AddressSchemaOptions,
+  SchemaLanguage,
+} from './utils/schema';
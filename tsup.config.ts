@@ -1,7 +1,19 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: [
+    "src/index.ts",
+    "src/divisions.ts",
+    "src/districts.ts",
+    "src/upazilas.ts",
+    "src/unions.ts",
+    "src/search.ts",
+    "src/loaders.ts",
+    "src/boundaries.ts",
+    "src/zod.ts",
+    "src/valibot.ts",
+    "src/cli/index.ts",
+  ],
   format: ["esm", "cjs"],
   dts: true,
   sourcemap: true,